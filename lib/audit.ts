@@ -0,0 +1,240 @@
+// ✅ LOG DE AUDITORIA DAS ENTREGAS À META
+// Cada evento enviado vira um registro com o payload final (após enriquecimento, exatamente
+// como foi no corpo da requisição - o token vai na URL e nunca é gravado), a resposta da Meta
+// para aquele pixel e o fbtrace_id. Serve para responder "o que o proxy mandou?" quando os
+// números do Events Manager não batem, e como base do replay (/api/admin/replay).
+// Store local append-only: um arquivo JSONL por dia (UTC) em AUDIT_LOG_DIR. A retenção apaga
+// arquivos inteiros mais antigos que AUDIT_RETENTION_DAYS - nenhum registro é reescrito.
+// ⚠️ O payload guarda IP e user-agent do visitante: a retenção é o limite de exposição.
+
+import { createReadStream, promises as fs } from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { logger } from "./logger";
+import type { MetaErrorDetails, EventDeliveryStatus, PixelDeliveryResult } from "./meta";
+import type { PixelBatch } from "./routing";
+import type { EventData } from "./types";
+
+export interface AuditConfig {
+  enabled: boolean;
+  dir: string;
+  retentionDays: number;
+}
+
+export interface AuditRecord {
+  id: string;
+  recorded_at: number; // ms
+  source: string; // frontend, hotmart, kiwify..., retry_queue ou replay
+  pixel_key: string;
+  pixel_id: string;
+  event_id: string;
+  event_name: string;
+  event_time: number;
+  transaction?: string; // custom_data.order_id (transação da plataforma ou pedido do frontend)
+  test_event_code?: string;
+  replay_of?: string; // id do registro reenviado
+  payload: EventData;
+  response: {
+    ok: boolean;
+    http_status: number;
+    status?: EventDeliveryStatus;
+    events_received?: number;
+    fbtrace_id?: string;
+    error?: MetaErrorDetails;
+  };
+}
+
+export interface AuditQuery {
+  event_id?: string;
+  transaction?: string;
+  event_name?: string;
+  source?: string;
+  pixel_key?: string;
+  from?: number; // ms
+  to?: number; // ms
+  limit?: number;
+}
+
+export interface AuditEntryContext {
+  source: string;
+  testEventCode?: string;
+  replayOf?: Record<string, string>; // event_id → id do registro original
+}
+
+export const AUDIT_DEFAULT_LIMIT = 100;
+export const AUDIT_MAX_LIMIT = 1000;
+// aud_<ms da gravação, 13 dígitos>_<aleatório>
+export const AUDIT_ID_PATTERN = /^aud_\d{13}_[a-z0-9]+$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+function dayOf(timestampMs: number): string {
+  return new Date(timestampMs).toISOString().slice(0, 10);
+}
+
+export function buildAuditRecords(
+  batches: PixelBatch[],
+  results: PixelDeliveryResult[],
+  context: AuditEntryContext,
+  now: number = Date.now()
+): AuditRecord[] {
+  const records: AuditRecord[] = [];
+  results.forEach((result, index) => {
+    batches[index].events.forEach((event) => {
+      const eventResult = result.events.find((entry) => entry.event_id === event.event_id);
+      const orderId = event.custom_data?.order_id;
+      records.push({
+        id: `aud_${now}_${Math.random().toString(36).slice(2, 10)}`,
+        recorded_at: now,
+        source: context.source,
+        pixel_key: result.pixel_key,
+        pixel_id: result.pixel_id,
+        event_id: event.event_id,
+        event_name: event.event_name,
+        event_time: Number(event.event_time),
+        ...(orderId ? { transaction: String(orderId) } : {}),
+        ...(context.testEventCode ? { test_event_code: context.testEventCode } : {}),
+        ...(context.replayOf?.[event.event_id] ? { replay_of: context.replayOf[event.event_id] } : {}),
+        payload: event,
+        response: {
+          ok: result.ok,
+          http_status: result.http_status,
+          status: eventResult?.status,
+          events_received: result.events_received,
+          fbtrace_id: result.fbtrace_id,
+          error: result.error,
+        },
+      });
+    });
+  });
+  return records;
+}
+
+function matches(record: AuditRecord, query: AuditQuery): boolean {
+  if (query.event_id && record.event_id !== query.event_id) return false;
+  if (query.transaction && record.transaction !== query.transaction) return false;
+  if (query.event_name && record.event_name !== query.event_name) return false;
+  if (query.source && record.source !== query.source) return false;
+  if (query.pixel_key && record.pixel_key !== query.pixel_key) return false;
+  if (query.from && record.recorded_at < query.from) return false;
+  if (query.to && record.recorded_at > query.to) return false;
+  return true;
+}
+
+export class FileAuditLog {
+  private queue: Promise<unknown> = Promise.resolve();
+  private prunedDay: string | null = null;
+
+  constructor(private readonly config: AuditConfig) {}
+
+  // Serializa escritas: appends de requisições simultâneas não se intercalam no meio de uma linha
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async files(): Promise<Array<{ day: string; file: string }>> {
+    try {
+      const names = await fs.readdir(this.config.dir);
+      return names
+        .map((name) => name.match(FILE_PATTERN))
+        .filter(Boolean)
+        .map((match) => ({ day: match[1], file: path.join(this.config.dir, match[0]) }))
+        .sort((a, b) => b.day.localeCompare(a.day));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  // Uma vez por dia (na primeira escrita): apaga os arquivos fora da retenção
+  private async prune(now: number): Promise<void> {
+    const today = dayOf(now);
+    if (this.prunedDay === today) return;
+    this.prunedDay = today;
+    const oldestKept = dayOf(now - (this.config.retentionDays - 1) * DAY_MS);
+    const expired = (await this.files()).filter((entry) => entry.day < oldestKept);
+    for (const entry of expired) {
+      await fs.unlink(entry.file);
+    }
+    if (expired.length > 0) {
+      logger.info("Arquivos de auditoria expirados removidos", { files: expired.length, oldest_kept: oldestKept });
+    }
+  }
+
+  // Nunca lança: falha na auditoria não pode derrubar uma entrega que já aconteceu
+  async append(records: AuditRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    try {
+      await this.enqueue(async () => {
+        const now = Date.now();
+        await fs.mkdir(this.config.dir, { recursive: true });
+        await this.prune(now);
+        const file = path.join(this.config.dir, `audit-${dayOf(now)}.jsonl`);
+        await fs.appendFile(file, records.map((record) => JSON.stringify(record)).join("\n") + "\n");
+      });
+    } catch (error: unknown) {
+      logger.error("Falha ao gravar o log de auditoria", { dir: this.config.dir, records: records.length, error });
+    }
+  }
+
+  // Mais recentes primeiro. Só lê os arquivos dos dias dentro de from/to.
+  async search(query: AuditQuery): Promise<AuditRecord[]> {
+    const limit = Math.min(query.limit || AUDIT_DEFAULT_LIMIT, AUDIT_MAX_LIMIT);
+    const fromDay = query.from ? dayOf(query.from) : null;
+    const toDay = query.to ? dayOf(query.to) : null;
+    const found: AuditRecord[] = [];
+
+    for (const entry of await this.files()) {
+      if ((fromDay && entry.day < fromDay) || (toDay && entry.day > toDay)) continue;
+      const dayMatches: AuditRecord[] = [];
+      const lines = readline.createInterface({ input: createReadStream(entry.file), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          const record = JSON.parse(line) as AuditRecord;
+          if (matches(record, query)) dayMatches.push(record);
+        } catch {
+          // Linha corrompida (ex: escrita interrompida) - ignorada
+        }
+      }
+      found.push(...dayMatches.reverse());
+      if (found.length >= limit) break;
+    }
+    return found.slice(0, limit);
+  }
+
+  // Ids fora do formato são ignorados (o timestamp vem do chamador e vira nome de arquivo)
+  async findByIds(ids: string[]): Promise<AuditRecord[]> {
+    const validIds = ids.filter((id) => AUDIT_ID_PATTERN.test(id));
+    const wanted = new Set(validIds);
+    // O id carrega o timestamp da gravação: só abre os arquivos dos dias pedidos
+    const days = validIds.map((id) => dayOf(Number(id.split("_")[1])));
+    const found: AuditRecord[] = [];
+    for (const entry of await this.files()) {
+      if (!days.includes(entry.day)) continue;
+      const lines = readline.createInterface({ input: createReadStream(entry.file), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          const record = JSON.parse(line) as AuditRecord;
+          if (wanted.has(record.id)) found.push(record);
+        } catch {
+          // Linha corrompida - ignorada
+        }
+      }
+    }
+    return found;
+  }
+}
+
+// Uma instância por processo (a fila de escrita precisa ser compartilhada)
+let auditLog: FileAuditLog | null = null;
+
+export function getAuditLog(config: AuditConfig): FileAuditLog | null {
+  if (!config.enabled) return null;
+  if (!auditLog) auditLog = new FileAuditLog(config);
+  return auditLog;
+}
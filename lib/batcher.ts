@@ -0,0 +1,161 @@
+// ✅ COALESCÊNCIA DE EVENTOS EM LOTES (opcional, BATCH_ENABLED)
+// Eventos já enriquecidos e deduplicados se acumulam por pixel e vão para a Meta em uma
+// única chamada quando o lote atinge BATCH_MAX_EVENTS (limite da Meta: 1000), BATCH_MAX_BYTES
+// (JSON sem compressão) ou BATCH_MAX_DELAY_MS desde o primeiro evento. O cliente recebe 202
+// na hora. A compressão continua em sendToMeta: lotes acima de 2048 bytes saem em gzip.
+// ⚠️ Só faz sentido em processo de longa duração (self-hosting): em serverless a instância
+// congela após a resposta e os timers não disparam - na Vercel, mantenha desligado.
+
+import type { PixelTarget } from "./config";
+import type { PixelDeliveryReport } from "./delivery";
+import { logger } from "./logger";
+import type { PixelBatch } from "./routing";
+import type { EventData } from "./types";
+
+export const META_MAX_EVENTS_PER_REQUEST = 1000;
+
+export interface BatchConfig {
+  enabled: boolean;
+  maxEvents: number;
+  maxBytes: number;
+  maxDelayMs: number;
+}
+
+export type FlushReason = "size" | "bytes" | "delay" | "shutdown";
+
+export type BatchDeliver = (batches: PixelBatch[], testEventCode?: string) => Promise<PixelDeliveryReport[]>;
+
+interface PixelBuffer {
+  target: PixelTarget;
+  testEventCode?: string;
+  events: EventData[];
+  bytes: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// {"data":[...]} - o separador entre eventos conta 1 byte
+const PAYLOAD_OVERHEAD_BYTES = 12;
+
+function eventBytes(event: EventData): number {
+  return Buffer.byteLength(JSON.stringify(event)) + 1;
+}
+
+export class EventBatcher {
+  private readonly buffers = new Map<string, PixelBuffer>();
+  private readonly inFlight = new Set<Promise<unknown>>();
+
+  constructor(private readonly config: BatchConfig, private readonly deliver: BatchDeliver) {}
+
+  // Eventos de teste não podem dividir a chamada com eventos reais (test_event_code é por requisição)
+  private bufferKey(target: PixelTarget, testEventCode?: string): string {
+    return testEventCode ? `${target.key}#${testEventCode}` : target.key;
+  }
+
+  enqueue(batches: PixelBatch[], testEventCode?: string): number {
+    let queued = 0;
+    batches.forEach((batch) => {
+      batch.events.forEach((event) => {
+        this.add(batch.target, event, testEventCode);
+        queued++;
+      });
+    });
+    return queued;
+  }
+
+  private add(target: PixelTarget, event: EventData, testEventCode?: string): void {
+    const key = this.bufferKey(target, testEventCode);
+    const size = eventBytes(event);
+
+    // O evento não cabe no lote atual: envia o que já existe antes de acumular
+    const current = this.buffers.get(key);
+    if (current && current.bytes + size > this.config.maxBytes) {
+      this.flush(key, "bytes");
+    }
+
+    let buffer = this.buffers.get(key);
+    if (!buffer) {
+      buffer = { target, testEventCode, events: [], bytes: PAYLOAD_OVERHEAD_BYTES, timer: null };
+      this.buffers.set(key, buffer);
+    }
+    buffer.events.push(event);
+    buffer.bytes += size;
+
+    if (buffer.events.length >= this.config.maxEvents) {
+      this.flush(key, "size");
+    } else if (buffer.bytes >= this.config.maxBytes) {
+      this.flush(key, "bytes");
+    } else if (!buffer.timer) {
+      buffer.timer = setTimeout(() => this.flush(key, "delay"), this.config.maxDelayMs);
+      // Timer pendente não impede o processo de encerrar (o shutdown faz o flush final)
+      buffer.timer.unref?.();
+    }
+  }
+
+  private flush(key: string, reason: FlushReason): Promise<unknown> {
+    const buffer = this.buffers.get(key);
+    if (!buffer || buffer.events.length === 0) return Promise.resolve();
+    this.buffers.delete(key);
+    if (buffer.timer) clearTimeout(buffer.timer);
+
+    logger.info("Lote de eventos enviado para a Meta", {
+      pixel: buffer.target.key,
+      events: buffer.events.length,
+      bytes: buffer.bytes,
+      reason,
+      test_event_code: buffer.testEventCode,
+    });
+
+    // Falhas já são tratadas em deliverToPixels (libera deduplicação, fila de retry)
+    const delivery = this.deliver([{ target: buffer.target, events: buffer.events }], buffer.testEventCode)
+      .catch((error: unknown) => {
+        logger.error("Falha inesperada ao enviar lote de eventos", { pixel: buffer.target.key, error });
+      })
+      .finally(() => {
+        this.inFlight.delete(delivery);
+      });
+    this.inFlight.add(delivery);
+    return delivery;
+  }
+
+  async flushAll(reason: FlushReason = "shutdown"): Promise<void> {
+    Array.from(this.buffers.keys()).forEach((key) => this.flush(key, reason));
+    await Promise.all(Array.from(this.inFlight));
+  }
+
+  pendingEvents(): number {
+    let total = 0;
+    this.buffers.forEach((buffer) => {
+      total += buffer.events.length;
+    });
+    return total;
+  }
+}
+
+// ==================== SHUTDOWN ====================
+// SIGTERM/SIGINT: esvazia os buffers antes de encerrar. Se ninguém mais trata o sinal,
+// ele é reenviado depois do flush para o processo terminar normalmente.
+function installShutdownHooks(batcher: EventBatcher): void {
+  const onSignal = (signal: NodeJS.Signals) => {
+    logger.info("Encerrando - enviando lotes pendentes", { signal, pending_events: batcher.pendingEvents() });
+    batcher.flushAll("shutdown").finally(() => {
+      if (process.listenerCount(signal) === 0) process.kill(process.pid, signal);
+    });
+  };
+  process.once("SIGTERM", onSignal);
+  process.once("SIGINT", onSignal);
+  process.once("beforeExit", () => {
+    void batcher.flushAll("shutdown");
+  });
+}
+
+// Uma instância por processo (os buffers precisam sobreviver entre requisições)
+let eventBatcher: EventBatcher | null = null;
+
+export function getEventBatcher(config: BatchConfig, deliver: BatchDeliver): EventBatcher | null {
+  if (!config.enabled) return null;
+  if (!eventBatcher) {
+    eventBatcher = new EventBatcher(config, deliver);
+    installShutdownHooks(eventBatcher);
+  }
+  return eventBatcher;
+}
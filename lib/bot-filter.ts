@@ -0,0 +1,155 @@
+// ✅ FILTRO DE BOTS E CRAWLERS
+// Crawlers, monitores de uptime e navegadores headless executam o JavaScript da página e
+// inflam PageView/Lead. Cada evento do frontend é classificado por quatro sinais:
+// - user_agent: user-agent vazio ou presente em data/bot-user-agents.json
+// - bot_network: IP dentro das faixas de data/bot-networks.json (crawlers por ASN)
+// - missing_fbp_suspicious_headers: sem fbp E com headers que navegador real não manda
+//   (sem Accept-Language, client hints de headless, prefetch/preview)
+// - event_rate: external_id acima de BOT_MAX_EVENTS_PER_MINUTE (contagem por instância)
+// BOT_FILTER_MODE: drop descarta, tag envia com custom_data.traffic_class = "bot", off desliga.
+// Webhooks Hotmart não passam por aqui (servidor a servidor, autenticados por hottok).
+
+import botUserAgents from "../data/bot-user-agents.json";
+import botNetworks from "../data/bot-networks.json";
+import { headerValue } from "./http";
+import { Cidr, ipInCidr, parseCidr, parseIP } from "./ip";
+import type { EventData } from "./types";
+
+export type BotFilterMode = "off" | "tag" | "drop";
+
+export type BotSignal = "user_agent" | "bot_network" | "missing_fbp_suspicious_headers" | "event_rate";
+
+export interface BotFilterConfig {
+  mode: BotFilterMode;
+  maxEventsPerMinute: number;
+}
+
+// Sinais que valem para a requisição inteira (calculados uma vez)
+export interface RequestBotProfile {
+  signals: BotSignal[];
+  network?: string;
+  suspiciousHeaders: string[];
+}
+
+export interface BotFilterSummary {
+  mode: BotFilterMode;
+  filtered: number;
+  tagged: number;
+  signals: Partial<Record<BotSignal, number>>;
+  events: Array<{ event_id: string; signals: BotSignal[] }>;
+}
+
+// ==================== LISTAS (data/*.json) ====================
+const USER_AGENT_PATTERN = new RegExp(botUserAgents.patterns.join("|"), "i");
+
+const NETWORKS: Array<{ name: string; cidrs: Cidr[] }> = botNetworks.networks.map((network) => ({
+  name: network.name,
+  cidrs: network.cidrs.map(parseCidr).filter(Boolean),
+}));
+
+export function isBotUserAgent(userAgent: string): boolean {
+  return !userAgent.trim() || USER_AGENT_PATTERN.test(userAgent);
+}
+
+export function findBotNetwork(ip: string): string | undefined {
+  const bytes = parseIP(ip);
+  if (!bytes) return undefined;
+  return NETWORKS.find((network) => network.cidrs.some((cidr) => ipInCidr(bytes, cidr)))?.name;
+}
+
+// Sozinhos não provam nada (proxies corporativos removem headers), só contam junto com a falta de fbp
+export function suspiciousHeaders(headers: Record<string, string | string[] | undefined>): string[] {
+  const found: string[] = [];
+  if (!headerValue(headers["accept-language"])) found.push("missing_accept_language");
+  if (/headless/i.test(headerValue(headers["sec-ch-ua"]) || "")) found.push("headless_client_hint");
+  const purpose = headerValue(headers["sec-purpose"]) || headerValue(headers.purpose) || headerValue(headers["x-purpose"]);
+  if (purpose && /prefetch|preview/i.test(purpose)) found.push("prefetch");
+  return found;
+}
+
+export function profileRequest(
+  headers: Record<string, string | string[] | undefined>,
+  ip: string,
+  userAgent: string
+): RequestBotProfile {
+  const signals: BotSignal[] = [];
+  if (isBotUserAgent(userAgent)) signals.push("user_agent");
+  const network = findBotNetwork(ip);
+  if (network) signals.push("bot_network");
+  return { signals, network, suspiciousHeaders: suspiciousHeaders(headers) };
+}
+
+// ==================== TAXA POR EXTERNAL_ID ====================
+// Janela fixa de 1 minuto por external_id; Map em ordem de uso com limite de chaves (LRU)
+export class EventRateTracker {
+  private readonly windows = new Map<string, { start: number; count: number }>();
+
+  constructor(private readonly maxKeys: number = 10000) {}
+
+  record(key: string, now: number): number {
+    const current = this.windows.get(key);
+    const window = current && now - current.start < 60000 ? current : { start: now, count: 0 };
+    window.count += 1;
+
+    this.windows.delete(key);
+    this.windows.set(key, window);
+    if (this.windows.size > this.maxKeys) {
+      const oldest = this.windows.keys().next();
+      if (!oldest.done) this.windows.delete(oldest.value);
+    }
+    return window.count;
+  }
+}
+
+const eventRates = new EventRateTracker();
+
+// ==================== CLASSIFICAÇÃO ====================
+export function classifyEvent(
+  event: EventData,
+  profile: RequestBotProfile,
+  fbpCookie: string | undefined,
+  config: BotFilterConfig,
+  now: number = Date.now()
+): BotSignal[] {
+  const signals = [...profile.signals];
+
+  const fbp = event.user_data?.fbp || fbpCookie;
+  if (!fbp && profile.suspiciousHeaders.length > 0) signals.push("missing_fbp_suspicious_headers");
+
+  const externalId = event.user_data?.external_id;
+  if (externalId && eventRates.record(externalId, now) > config.maxEventsPerMinute) {
+    signals.push("event_rate");
+  }
+  return signals;
+}
+
+// Classifica o lote: em drop devolve só os eventos limpos; em tag marca custom_data e devolve todos
+export function filterBotEvents(
+  events: EventData[],
+  profile: RequestBotProfile,
+  fbpCookie: string | undefined,
+  config: BotFilterConfig
+): { events: EventData[]; summary: BotFilterSummary } {
+  const summary: BotFilterSummary = { mode: config.mode, filtered: 0, tagged: 0, signals: {}, events: [] };
+  if (config.mode === "off") return { events, summary };
+
+  const kept = events.filter((event) => {
+    const signals = classifyEvent(event, profile, fbpCookie, config);
+    if (signals.length === 0) return true;
+
+    summary.events.push({ event_id: event.event_id, signals });
+    signals.forEach((signal) => {
+      summary.signals[signal] = (summary.signals[signal] || 0) + 1;
+    });
+
+    if (config.mode === "drop") {
+      summary.filtered++;
+      return false;
+    }
+    summary.tagged++;
+    event.custom_data = { ...(event.custom_data || {}), traffic_class: "bot", bot_signals: signals.join(",") };
+    return true;
+  });
+
+  return { events: kept, summary };
+}
@@ -0,0 +1,1110 @@
+// ✅ CONFIGURAÇÃO DE RUNTIME (variáveis de ambiente validadas)
+// Pixel, token, versão da Graph API e allowlist de origens saem do código-fonte:
+// staging e produção apontam para pixels diferentes e o token pode ser rotacionado
+// sem deploy de código. Qualquer variável obrigatória ausente/inválida gera um
+// ConfigError listando TODOS os problemas de uma vez (fail-fast).
+
+import type { DedupConfig, DedupStoreKind } from "./dedup";
+import type { RedisConfig } from "./redis";
+import type { RetryConfig, RetryQueueStoreKind } from "./retry-queue";
+import type { PiiConfig, PiiSource } from "./pii";
+import type { ConsentConfig, ConsentDecision } from "./consent";
+import { configureLogger, LoggerConfig, LogLevel } from "./logger";
+import type { ValidationConfig } from "./validation";
+import type { TestModeConfig } from "./test-mode";
+import { META_MAX_EVENTS_PER_REQUEST, BatchConfig } from "./batcher";
+import type { BotFilterConfig, BotFilterMode } from "./bot-filter";
+import type { CookieConfig } from "./cookies";
+import type { IdentityConfig, IdentitySource } from "./identity";
+import type { GeoConfig, GeoSource } from "./geo";
+import type { RateLimitConfig, RateLimitPolicy, RateLimitPolicyName, RateLimitStoreKind } from "./rate-limit";
+import type { HotmartEventActions, HotmartEventIdConfig, HotmartEventIdRule } from "./hotmart";
+import { EventActions, isRecord } from "./sources/adapter";
+import { GENERIC_FIELDS, GenericField, GenericSourceConfig, RESERVED_SOURCE_NAMES } from "./sources/generic";
+import type { SourcesConfig } from "./sources";
+import type { Ga4Config } from "./destinations/ga4";
+import type { TiktokConfig } from "./destinations/tiktok";
+import type { AuditConfig } from "./audit";
+
+export interface HotmartSecrets {
+  hottoks: string[];
+  hmacSecrets: string[];
+}
+
+export interface PixelTarget {
+  key: string;
+  pixelId: string;
+  accessToken: string;
+  eventsUrl: string;
+}
+
+export const DEFAULT_PIXEL_KEY = "default";
+
+export interface MetaConfig {
+  graphVersion: string;
+  // Sempre contém DEFAULT_PIXEL_KEY (META_PIXEL_ID/META_ACCESS_TOKEN) + os pixels de META_PIXELS
+  pixels: Record<string, PixelTarget>;
+}
+
+export interface PixelRouteMatch {
+  origin?: string[];
+  host?: string[];
+  event_name?: string[];
+  hotmart_product_id?: string[];
+  source?: string[]; // fonte do evento: frontend, hotmart, kiwify, eduzz, stripe ou webhook genérico
+  product_id?: string[]; // produto informado pelo adaptador da fonte (qualquer plataforma)
+}
+
+export interface PixelRoute {
+  name: string;
+  match: PixelRouteMatch;
+  pixels: string[];
+}
+
+export interface CapiConfig {
+  meta: MetaConfig;
+  routes: PixelRoute[];
+  allowedOrigins: string[];
+  defaultEventSourceUrl: string;
+  hotmart: HotmartSecrets;
+  hotmartEventIds: HotmartEventIdConfig;
+  hotmartActions: HotmartEventActions;
+  sources: SourcesConfig;
+  dedup: DedupConfig;
+  redis: RedisConfig | null;
+  retry: RetryConfig;
+  cronSecret?: string;
+  metricsToken?: string;
+  pii: PiiConfig;
+  consent: ConsentConfig;
+  logging: LoggerConfig;
+  validation: ValidationConfig;
+  testMode: TestModeConfig;
+  batch: BatchConfig;
+  rateLimit: RateLimitConfig;
+  botFilter: BotFilterConfig;
+  cookies: CookieConfig;
+  identity: IdentityConfig;
+  geo: GeoConfig;
+  ga4: Ga4Config;
+  tiktok: TiktokConfig;
+  audit: AuditConfig;
+}
+
+export class ConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Configuração inválida:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ConfigError";
+    this.issues = issues;
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+// ==================== SCHEMA ====================
+interface FieldSpec {
+  description: string;
+  required: boolean;
+  default?: string;
+  pattern?: RegExp;
+  hint?: string;
+}
+
+const SCHEMA: Record<string, FieldSpec> = {
+  META_PIXEL_ID: {
+    description: "ID do pixel Meta",
+    required: true,
+    pattern: /^\d{10,20}$/,
+    hint: "somente dígitos",
+  },
+  META_ACCESS_TOKEN: {
+    description: "Token de acesso da Conversions API",
+    required: true,
+    pattern: /^\S{20,}$/,
+    hint: "token sem espaços com pelo menos 20 caracteres",
+  },
+  META_GRAPH_VERSION: {
+    description: "Versão da Graph API",
+    required: false,
+    default: "v19.0",
+    pattern: /^v\d+\.\d+$/,
+    hint: "formato vNN.N, ex: v19.0",
+  },
+  ALLOWED_ORIGINS: {
+    description: "Origens permitidas (CORS), separadas por vírgula",
+    required: true,
+  },
+  META_PIXELS: {
+    description: 'Pixels adicionais em JSON: {"chave": {"pixel_id": "...", "access_token": "..."}}',
+    required: false,
+  },
+  PIXEL_ROUTES: {
+    description: 'Regras de roteamento em JSON: [{"match": {...}, "pixels": ["chave"]}]',
+    required: false,
+  },
+  DEFAULT_EVENT_SOURCE_URL: {
+    description: "event_source_url usado quando o evento não informa nenhum",
+    required: false,
+  },
+  DEDUP_STORE: {
+    description: "Backend de deduplicação",
+    required: false,
+    default: "memory",
+    pattern: /^(memory|redis|file)$/,
+    hint: "memory, redis ou file",
+  },
+  DEDUP_TTL_HOURS: {
+    description: "Janela de deduplicação em horas",
+    required: false,
+    default: "6",
+    pattern: /^\d+(\.\d+)?$/,
+    hint: "número de horas, ex: 6",
+  },
+  DEDUP_MAX_ENTRIES: {
+    description: "Máximo de eventos no cache de memória/arquivo",
+    required: false,
+    default: "50000",
+    pattern: /^\d+$/,
+    hint: "inteiro positivo",
+  },
+  DEDUP_FILE_PATH: {
+    description: "Arquivo JSONL do store de deduplicação 'file'",
+    required: false,
+    default: "/tmp/capi-proxy/dedup.jsonl",
+  },
+  REDIS_REST_URL: {
+    description: "URL REST do Redis (Upstash/Vercel KV); usa KV_REST_API_URL se ausente",
+    required: false,
+  },
+  REDIS_REST_TOKEN: {
+    description: "Token REST do Redis; usa KV_REST_API_TOKEN se ausente",
+    required: false,
+  },
+  RETRY_QUEUE_ENABLED: {
+    description: "Habilita a fila de retry para falhas transitórias da Meta",
+    required: false,
+    default: "true",
+    pattern: /^(true|false)$/,
+    hint: "true ou false",
+  },
+  RETRY_QUEUE_STORE: {
+    description: "Store da fila de retry: file (self-hosting, um processo) ou redis (serverless)",
+    required: false,
+    default: "file",
+    pattern: /^(file|redis)$/,
+    hint: "file ou redis",
+  },
+  RETRY_QUEUE_PATH: {
+    description: "Arquivo JSON da fila de retry (store file)",
+    required: false,
+    default: "/tmp/capi-proxy/retry-queue.json",
+  },
+  AUDIT_LOG_ENABLED: {
+    description: "Grava cada evento enviado à Meta (payload final + resposta) no log de auditoria",
+    required: false,
+    default: "true",
+    pattern: /^(true|false)$/,
+    hint: "true ou false",
+  },
+  AUDIT_LOG_DIR: {
+    description: "Diretório dos arquivos JSONL diários do log de auditoria",
+    required: false,
+    default: "/tmp/capi-proxy/audit",
+  },
+  AUDIT_RETENTION_DAYS: {
+    description: "Dias mantidos no log de auditoria (arquivos mais antigos são apagados)",
+    required: false,
+    default: "30",
+    pattern: /^\d+$/,
+    hint: "inteiro em dias",
+  },
+  RETRY_MAX_ATTEMPTS: {
+    description: "Total de tentativas por lote (incluindo a original)",
+    required: false,
+    default: "8",
+    pattern: /^\d+$/,
+    hint: "inteiro positivo",
+  },
+  RETRY_BASE_DELAY_SECONDS: {
+    description: "Atraso base do backoff exponencial",
+    required: false,
+    default: "60",
+    pattern: /^\d+$/,
+    hint: "inteiro em segundos",
+  },
+  RETRY_MAX_DELAY_SECONDS: {
+    description: "Atraso máximo entre tentativas",
+    required: false,
+    default: "21600",
+    pattern: /^\d+$/,
+    hint: "inteiro em segundos",
+  },
+  RETRY_QUEUE_MAX_JOBS: {
+    description: "Máximo de lotes aguardando retry",
+    required: false,
+    default: "5000",
+    pattern: /^\d+$/,
+    hint: "inteiro positivo",
+  },
+  RATE_LIMIT_STORE: {
+    description: "Store do rate limit: memory (por instância) ou redis (compartilhado)",
+    required: false,
+    default: "memory",
+    pattern: /^(memory|redis)$/,
+    hint: "memory ou redis",
+  },
+  RATE_LIMIT_FRONTEND: {
+    description: "Token bucket do frontend por IP + origem + pixel: <capacidade>/<segundos para recarregar>",
+    required: false,
+    default: "100/60",
+    pattern: /^\d+\/\d+$/,
+    hint: "ex: 100/60",
+  },
+  RATE_LIMIT_HOTMART: {
+    description: "Token bucket dos webhooks Hotmart por IP + pixel",
+    required: false,
+    default: "600/60",
+    pattern: /^\d+\/\d+$/,
+    hint: "ex: 600/60",
+  },
+  RATE_LIMIT_WEBHOOKS: {
+    description: "Token bucket dos webhooks das demais plataformas (/api/webhooks/<fonte>) por IP + fonte",
+    required: false,
+    default: "600/60",
+    pattern: /^\d+\/\d+$/,
+    hint: "ex: 600/60",
+  },
+  RATE_LIMIT_ADMIN: {
+    description: "Token bucket das rotas administrativas (cron, modo de teste) por IP",
+    required: false,
+    default: "30/60",
+    pattern: /^\d+\/\d+$/,
+    hint: "ex: 30/60",
+  },
+  BOT_FILTER_MODE: {
+    description: "O que fazer com eventos classificados como bot (drop descarta, tag envia marcado, off desliga)",
+    required: false,
+    default: "drop",
+    pattern: /^(off|tag|drop)$/,
+    hint: "off, tag ou drop",
+  },
+  BOT_MAX_EVENTS_PER_MINUTE: {
+    description: "Eventos por minuto acima dos quais um external_id é tratado como automatizado",
+    required: false,
+    default: "60",
+    pattern: /^\d+$/,
+    hint: "inteiro positivo",
+  },
+  COOKIE_DOMAIN: {
+    description: "Domínio dos cookies _fbp/_fbc gravados pelo proxy (o proxy deve estar em um subdomínio dele)",
+    required: false,
+    pattern: /^\.?([a-z0-9-]+\.)+[a-z]{2,}$/i,
+    hint: "domínio sem protocolo, ex: digitalpaisagismo.com",
+  },
+  COOKIE_MAX_AGE_DAYS: {
+    description: "Validade dos cookies _fbp/_fbc gravados pelo proxy (o Chrome limita a 400 dias)",
+    required: false,
+    default: "390",
+    pattern: /^\d+$/,
+    hint: "inteiro entre 1 e 400",
+  },
+  IDENTITY_SOURCES: {
+    description: "Fontes do external_id em ordem de prioridade (frontend, visitor_cookie, session_cookie)",
+    required: false,
+    default: "frontend,visitor_cookie,session_cookie",
+    pattern: /^\s*(frontend|visitor_cookie|session_cookie)\s*(,\s*(frontend|visitor_cookie|session_cookie)\s*)*$/,
+    hint: "lista com frontend, visitor_cookie e/ou session_cookie",
+  },
+  IDENTITY_SECRET: {
+    description: "Segredo HMAC que assina o cookie de visitante (sem ele a fonte visitor_cookie fica desligada)",
+    required: false,
+    pattern: /^.{32,}$/,
+    hint: "pelo menos 32 caracteres aleatórios",
+  },
+  IDENTITY_COOKIE_NAME: {
+    description: "Nome do cookie de visitante emitido pelo proxy",
+    required: false,
+    default: "cap_vid",
+    pattern: /^[A-Za-z0-9_-]+$/,
+    hint: "letras, números, _ ou -",
+  },
+  IDENTITY_HOTMART_PARAM: {
+    description: "Parâmetro do link de checkout Hotmart que leva o token do visitante (sck ou src)",
+    required: false,
+    default: "sck",
+    pattern: /^(sck|src)$/,
+    hint: "sck ou src",
+  },
+  IDENTITY_HOTMART_PREFIX: {
+    description: "Prefixo do segmento com o token do visitante no sck/src (ex: sck=vid_<token>|utm)",
+    required: false,
+    default: "vid_",
+  },
+  GEO_ENRICHMENT: {
+    description: "Fontes de geolocalização pelo IP em ordem (vercel, cloudflare, database) ou off",
+    required: false,
+    default: "vercel",
+    pattern: /^\s*(off|((vercel|cloudflare|database)\s*(,\s*(vercel|cloudflare|database)\s*)*))$/,
+    hint: "off ou lista com vercel, cloudflare e/ou database",
+  },
+  GEO_DATABASE_PATH: {
+    description: "Caminho do banco MaxMind local (.mmdb, ex: GeoLite2-City.mmdb) usado pela fonte database",
+    required: false,
+  },
+  BATCH_ENABLED: {
+    description: "Acumula eventos do frontend por pixel e envia em lotes (responde 202) - só self-hosting",
+    required: false,
+    default: "false",
+    pattern: /^(true|false)$/,
+    hint: "true ou false",
+  },
+  BATCH_MAX_EVENTS: {
+    description: "Eventos por lote antes do envio (máximo da Meta: 1000)",
+    required: false,
+    default: "500",
+    pattern: /^\d+$/,
+    hint: "inteiro entre 1 e 1000",
+  },
+  BATCH_MAX_BYTES: {
+    description: "Tamanho máximo do lote em bytes (JSON antes do gzip)",
+    required: false,
+    default: "524288",
+    pattern: /^\d+$/,
+    hint: "inteiro em bytes",
+  },
+  BATCH_MAX_DELAY_MS: {
+    description: "Tempo máximo que um evento espera no lote",
+    required: false,
+    default: "2000",
+    pattern: /^\d+$/,
+    hint: "inteiro em milissegundos",
+  },
+  CRON_SECRET: {
+    description: "Segredo enviado pelo Vercel Cron (Authorization: Bearer) para rotas /api/cron",
+    required: false,
+  },
+  METRICS_TOKEN: {
+    description: "Token (Authorization: Bearer) do scrape de /api/metrics; sem ele vale o ADMIN_TOKEN",
+    required: false,
+  },
+  PII_ENRICHMENT_SOURCES: {
+    description: "Fontes com enriquecimento de PII hasheada habilitado (frontend, hotmart, kiwify, eduzz, stripe, generic), separadas por vírgula",
+    required: false,
+    pattern: /^\s*(frontend|hotmart|kiwify|eduzz|stripe|generic)\s*(,\s*(frontend|hotmart|kiwify|eduzz|stripe|generic)\s*)*$/,
+    hint: "lista com frontend, hotmart, kiwify, eduzz, stripe e/ou generic",
+  },
+  PII_CPF_AS_EXTERNAL_ID: {
+    description: "Usa o CPF do comprador (hasheado) como external_id",
+    required: false,
+    default: "false",
+    pattern: /^(true|false)$/,
+    hint: "true ou false",
+  },
+  PII_DEFAULT_COUNTRY_CODE: {
+    description: "DDI aplicado a telefones sem código do país",
+    required: false,
+    default: "55",
+    pattern: /^\d{1,3}$/,
+    hint: "1 a 3 dígitos, ex: 55",
+  },
+  CONSENT_DEFAULT: {
+    description: "Decisão para eventos sem sinal de consentimento (forward, downgrade ou drop)",
+    required: false,
+    default: "forward",
+    pattern: /^(forward|downgrade|drop)$/,
+    hint: "forward, downgrade ou drop",
+  },
+  CONSENT_COOKIE_NAME: {
+    description: "Cookie com o consentimento do visitante (JSON ou all/analytics/none)",
+    required: false,
+    default: "cap_consent",
+  },
+  META_TEST_EVENT_CODE: {
+    description: "Código de Test Events aplicado a TODOS os eventos (apenas staging/preview)",
+    required: false,
+    pattern: /^[A-Za-z0-9_-]{1,64}$/,
+    hint: "código da aba Testar eventos, ex: TEST12345",
+  },
+  DRY_RUN: {
+    description: "Processa os eventos sem enviar à Meta e sem deduplicar (retorna o payload)",
+    required: false,
+    default: "false",
+    pattern: /^(true|false)$/,
+    hint: "true ou false",
+  },
+  ADMIN_TOKEN: {
+    description: "Token (Authorization: Bearer) que libera os headers X-Test-Event-Code e X-Dry-Run",
+    required: false,
+  },
+  CUSTOM_EVENT_NAMES: {
+    description: "Eventos customizados aceitos do frontend além dos eventos padrão da Meta, separados por vírgula",
+    required: false,
+  },
+  LOG_LEVEL: {
+    description: "Nível mínimo de log (debug, info, warn, error)",
+    required: false,
+    default: "info",
+    pattern: /^(debug|info|warn|error)$/,
+    hint: "debug, info, warn ou error",
+  },
+  LOG_SUCCESS_SAMPLE_RATE: {
+    description: "Fração das requisições que registram logs de sucesso (0 a 1)",
+    required: false,
+    default: "1",
+    pattern: /^(0(\.\d+)?|1(\.0+)?)$/,
+    hint: "número entre 0 e 1, ex: 0.1",
+  },
+  HOTMART_HOTTOK: {
+    description: "Hottok(s) Hotmart aceitos, separados por vírgula",
+    required: false,
+  },
+  HOTMART_HMAC_SECRETS: {
+    description: "Segredo(s) HMAC opcionais para webhooks Hotmart, separados por vírgula",
+    required: false,
+  },
+  HOTMART_EVENT_ID_SCHEMES: {
+    description: 'Esquema de event_id por produto Hotmart em JSON: {"default": {"scheme": "transaction"}, "<product_id>": {"scheme": "sck", "prefix": "eid_"}}',
+    required: false,
+  },
+  HOTMART_EVENT_ACTIONS: {
+    description: 'Mapeamento por evento Hotmart em JSON: {"PURCHASE_REFUNDED": {"type": "custom", "event_name": "Refund"}, "PURCHASE_COMPLETE": "none"}',
+    required: false,
+  },
+  KIWIFY_WEBHOOK_TOKEN: {
+    description: "Token(s) dos webhooks Kiwify (assinatura HMAC-SHA1 em ?signature=), separados por vírgula",
+    required: false,
+  },
+  KIWIFY_EVENT_ACTIONS: {
+    description: 'Mapeamento por evento Kiwify em JSON: {"order_refunded": "none"}',
+    required: false,
+  },
+  EDUZZ_WEBHOOK_SECRET: {
+    description: "Segredo(s) HMAC-SHA256 dos webhooks Eduzz (header X-Signature), separados por vírgula",
+    required: false,
+  },
+  EDUZZ_EVENT_ACTIONS: {
+    description: 'Mapeamento por evento Eduzz em JSON: {"myeduzz.invoice_opened": "none"}',
+    required: false,
+  },
+  STRIPE_WEBHOOK_SECRET: {
+    description: "Segredo(s) do endpoint Stripe (whsec_...), separados por vírgula",
+    required: false,
+    pattern: /^\s*whsec_\S+\s*(,\s*whsec_\S+\s*)*$/,
+    hint: "lista de segredos whsec_...",
+  },
+  STRIPE_EVENT_ACTIONS: {
+    description: 'Mapeamento por evento Stripe em JSON: {"checkout.session.pending_payment": "none"}',
+    required: false,
+  },
+  STRIPE_SIGNATURE_TOLERANCE_SECONDS: {
+    description: "Idade máxima do timestamp do Stripe-Signature em segundos (proteção contra replay)",
+    required: false,
+    default: "300",
+    pattern: /^\d+$/,
+    hint: "inteiro em segundos",
+  },
+  GENERIC_WEBHOOKS: {
+    description: 'Webhooks genéricos por JSON path: {"<fonte>": {"auth": {...}, "event_type": "$.event", "events": {...}, "fields": {"order_id": "$.id"}}}',
+    required: false,
+  },
+  GA4_MEASUREMENT_ID: {
+    description: "ID da métrica do GA4 (G-XXXXXXX) - com GA4_API_SECRET liga o destino GA4",
+    required: false,
+    pattern: /^G-[A-Z0-9]{4,}$/,
+    hint: "formato G-XXXXXXX",
+  },
+  GA4_API_SECRET: {
+    description: "Chave secreta do Measurement Protocol (Admin → Fluxo de dados → Chaves secretas da API)",
+    required: false,
+  },
+  GA4_EVENTS: {
+    description: "Eventos Meta encaminhados ao GA4, separados por vírgula",
+    required: false,
+    default: "Lead,Purchase",
+  },
+  TIKTOK_PIXEL_CODE: {
+    description: "Código do pixel TikTok - com TIKTOK_ACCESS_TOKEN liga o destino TikTok Events API",
+    required: false,
+    pattern: /^[A-Z0-9]{10,30}$/,
+    hint: "código do pixel em maiúsculas (ex: C4ABCDEF1234567890)",
+  },
+  TIKTOK_ACCESS_TOKEN: {
+    description: "Access token da Events API (Events Manager → pixel → Settings)",
+    required: false,
+  },
+  TIKTOK_EVENTS: {
+    description: "Eventos Meta encaminhados ao TikTok, separados por vírgula",
+    required: false,
+    default: "ViewContent,AddToCart,InitiateCheckout,AddPaymentInfo,Lead,CompleteRegistration,Purchase",
+  },
+  TIKTOK_TEST_EVENT_CODE: {
+    description: "Código de teste do TikTok, usado quando a requisição traz test_event_code (ADMIN_TOKEN)",
+    required: false,
+  },
+};
+
+// Lista separada por vírgula → array sem entradas vazias
+export function parseList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+// "100/60" → capacidade 100, balde recarregado por completo em 60s
+function parseRatePolicy(env: Env, field: string, name: RateLimitPolicyName, issues: string[]): RateLimitPolicy {
+  const [capacity, windowSeconds] = (readField(env, field, issues) || "0/0").split("/").map(Number);
+  if (capacity < 1 || windowSeconds < 1) issues.push(`${field} precisa de capacidade e janela maiores que zero`);
+  return { name, capacity, windowSeconds };
+}
+
+function readField(env: Env, name: string, issues: string[]): string | undefined {
+  const spec = SCHEMA[name];
+  const raw = env[name]?.trim();
+
+  if (!raw) {
+    if (spec.required) issues.push(`${name} ausente (${spec.description})`);
+    return spec.default;
+  }
+  if (spec.pattern && !spec.pattern.test(raw)) {
+    issues.push(`${name} inválido (${spec.hint || spec.description})`);
+    return undefined;
+  }
+  return raw;
+}
+
+function parseOrigins(value: string | undefined, name: string, issues: string[]): string[] {
+  const origins: string[] = [];
+  parseList(value).forEach((entry) => {
+    try {
+      const url = new URL(entry);
+      if (url.origin !== entry.replace(/\/$/, "")) {
+        issues.push(`${name}: "${entry}" não é uma origem (use apenas esquema://host[:porta])`);
+        return;
+      }
+      origins.push(url.origin);
+    } catch {
+      issues.push(`${name}: "${entry}" não é uma URL válida`);
+    }
+  });
+  return origins;
+}
+
+function parseJson(value: string | undefined, name: string, issues: string[]): unknown {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    issues.push(`${name} não é um JSON válido`);
+    return undefined;
+  }
+}
+
+function buildPixelTarget(key: string, pixelId: string, accessToken: string, graphVersion: string): PixelTarget {
+  return {
+    key,
+    pixelId,
+    accessToken,
+    eventsUrl: `https://graph.facebook.com/${graphVersion}/${pixelId}/events`,
+  };
+}
+
+function parsePixels(value: unknown, graphVersion: string, issues: string[]): Record<string, PixelTarget> {
+  const pixels: Record<string, PixelTarget> = {};
+  if (value === undefined) return pixels;
+  if (!isRecord(value)) {
+    issues.push("META_PIXELS deve ser um objeto JSON indexado pela chave do pixel");
+    return pixels;
+  }
+
+  Object.entries(value).forEach(([key, entry]) => {
+    if (key === DEFAULT_PIXEL_KEY) {
+      issues.push(`META_PIXELS: a chave "${DEFAULT_PIXEL_KEY}" é reservada para META_PIXEL_ID`);
+      return;
+    }
+    const pixelId = isRecord(entry) && typeof entry.pixel_id === "string" ? entry.pixel_id.trim() : "";
+    const accessToken = isRecord(entry) && typeof entry.access_token === "string" ? entry.access_token.trim() : "";
+    if (!SCHEMA.META_PIXEL_ID.pattern.test(pixelId)) {
+      issues.push(`META_PIXELS.${key}.pixel_id inválido (somente dígitos)`);
+      return;
+    }
+    if (!SCHEMA.META_ACCESS_TOKEN.pattern.test(accessToken)) {
+      issues.push(`META_PIXELS.${key}.access_token ausente ou inválido`);
+      return;
+    }
+    pixels[key] = buildPixelTarget(key, pixelId, accessToken, graphVersion);
+  });
+  return pixels;
+}
+
+const ROUTE_MATCH_FIELDS: Array<keyof PixelRouteMatch> = [
+  "origin",
+  "host",
+  "event_name",
+  "hotmart_product_id",
+  "source",
+  "product_id",
+];
+
+function toStringList(value: unknown): string[] | null {
+  if (typeof value === "string" || typeof value === "number") return [String(value)];
+  if (Array.isArray(value) && value.every((item) => typeof item === "string" || typeof item === "number")) {
+    return value.map(String);
+  }
+  return null;
+}
+
+function parseRoutes(value: unknown, pixelKeys: string[], issues: string[]): PixelRoute[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push("PIXEL_ROUTES deve ser um array JSON");
+    return [];
+  }
+
+  const routes: PixelRoute[] = [];
+  value.forEach((entry: unknown, index: number) => {
+    const spec = isRecord(entry) ? entry : {};
+    const name = typeof spec.name === "string" && spec.name ? spec.name : `route_${index}`;
+    const match: PixelRouteMatch = {};
+
+    if (!isRecord(spec.match)) {
+      issues.push(`PIXEL_ROUTES[${index}] sem objeto "match"`);
+      return;
+    }
+    Object.entries(spec.match).forEach(([field, fieldValue]) => {
+      if (!ROUTE_MATCH_FIELDS.includes(field as keyof PixelRouteMatch)) {
+        issues.push(`PIXEL_ROUTES[${index}].match.${field} não suportado (use ${ROUTE_MATCH_FIELDS.join(", ")})`);
+        return;
+      }
+      const values = toStringList(fieldValue);
+      if (!values || values.length === 0) {
+        issues.push(`PIXEL_ROUTES[${index}].match.${field} deve ser string ou array de strings`);
+        return;
+      }
+      match[field as keyof PixelRouteMatch] = values;
+    });
+
+    const pixels = toStringList(spec.pixels);
+    if (!pixels || pixels.length === 0) {
+      issues.push(`PIXEL_ROUTES[${index}].pixels deve listar ao menos uma chave de pixel`);
+      return;
+    }
+    pixels
+      .filter((key) => !pixelKeys.includes(key))
+      .forEach((key) => issues.push(`PIXEL_ROUTES[${index}] referencia pixel desconhecido "${key}"`));
+
+    routes.push({ name, match, pixels });
+  });
+  return routes;
+}
+
+const EVENT_ID_SCHEMES = ["transaction", "sck", "src"];
+
+function parseEventIdSchemes(value: unknown, issues: string[]): HotmartEventIdConfig {
+  const config: HotmartEventIdConfig = { default: { scheme: "transaction" }, products: {} };
+  if (value === undefined) return config;
+  if (!isRecord(value)) {
+    issues.push("HOTMART_EVENT_ID_SCHEMES deve ser um objeto JSON indexado pelo id do produto");
+    return config;
+  }
+
+  Object.entries(value).forEach(([key, entry]) => {
+    if (!isRecord(entry) || typeof entry.scheme !== "string" || !EVENT_ID_SCHEMES.includes(entry.scheme)) {
+      issues.push(`HOTMART_EVENT_ID_SCHEMES.${key}.scheme inválido (use ${EVENT_ID_SCHEMES.join(", ")})`);
+      return;
+    }
+    const { prefix } = entry;
+    if (prefix !== undefined && (typeof prefix !== "string" || !prefix)) {
+      issues.push(`HOTMART_EVENT_ID_SCHEMES.${key}.prefix deve ser uma string não vazia`);
+      return;
+    }
+    const scheme = entry.scheme as HotmartEventIdRule["scheme"];
+    const rule: HotmartEventIdRule = { scheme, ...(typeof prefix === "string" ? { prefix } : {}) };
+    if (key === "default") config.default = rule;
+    else config.products[key] = rule;
+  });
+  return config;
+}
+
+const ACTION_TYPES = ["meta", "custom", "none"];
+const EVENT_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,49}$/;
+
+function parseEventActions(value: unknown, name: string, issues: string[]): EventActions {
+  const actions: EventActions = {};
+  if (value === undefined) return actions;
+  if (!isRecord(value)) {
+    issues.push(`${name} deve ser um objeto JSON indexado pelo evento da plataforma`);
+    return actions;
+  }
+
+  Object.entries(value).forEach(([sourceEvent, raw]) => {
+    const entry: unknown = raw === "none" ? { type: "none" } : raw;
+    if (!isRecord(entry) || typeof entry.type !== "string" || !ACTION_TYPES.includes(entry.type)) {
+      issues.push(`${name}.${sourceEvent}.type inválido (use ${ACTION_TYPES.join(", ")})`);
+      return;
+    }
+    if (entry.type === "none") {
+      actions[sourceEvent] = { type: "none" };
+      return;
+    }
+    if (typeof entry.event_name !== "string" || !EVENT_NAME_PATTERN.test(entry.event_name)) {
+      issues.push(`${name}.${sourceEvent}.event_name inválido`);
+      return;
+    }
+    actions[sourceEvent] = {
+      type: entry.type === "meta" ? "meta" : "custom",
+      event_name: entry.event_name,
+      ...(typeof entry.action_source === "string" ? { action_source: entry.action_source } : {}),
+    };
+  });
+  return actions;
+}
+
+const GENERIC_SOURCE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+const GENERIC_AUTH_ALGORITHMS = ["sha256", "sha1", "token"];
+
+function parseGenericWebhooks(value: unknown, issues: string[]): Record<string, GenericSourceConfig> {
+  const sources: Record<string, GenericSourceConfig> = {};
+  if (value === undefined) return sources;
+  if (!isRecord(value)) {
+    issues.push("GENERIC_WEBHOOKS deve ser um objeto JSON indexado pelo nome da fonte");
+    return sources;
+  }
+
+  Object.entries(value).forEach(([name, entry]) => {
+    const prefix = `GENERIC_WEBHOOKS.${name}`;
+    if (!GENERIC_SOURCE_NAME_PATTERN.test(name) || RESERVED_SOURCE_NAMES.includes(name)) {
+      issues.push(`${prefix}: nome inválido (minúsculas, dígitos, _ e -; reservados: ${RESERVED_SOURCE_NAMES.join(", ")})`);
+      return;
+    }
+    if (!isRecord(entry)) {
+      issues.push(`${prefix} deve ser um objeto`);
+      return;
+    }
+
+    const auth = isRecord(entry.auth) ? entry.auth : {};
+    const { header, algorithm } = auth;
+    const secrets = toStringList(auth.secrets) || [];
+    if (
+      typeof header !== "string" ||
+      !header ||
+      typeof algorithm !== "string" ||
+      !GENERIC_AUTH_ALGORITHMS.includes(algorithm) ||
+      secrets.length === 0
+    ) {
+      issues.push(`${prefix}.auth precisa de header, algorithm (${GENERIC_AUTH_ALGORITHMS.join(", ")}) e secrets`);
+      return;
+    }
+
+    const fields: Partial<Record<GenericField, string>> = {};
+    Object.entries(isRecord(entry.fields) ? entry.fields : {}).forEach(([field, path]) => {
+      if (!GENERIC_FIELDS.includes(field as GenericField)) {
+        issues.push(`${prefix}.fields.${field} não suportado (use ${GENERIC_FIELDS.join(", ")})`);
+      } else if (typeof path !== "string" || !path) {
+        issues.push(`${prefix}.fields.${field} deve ser um caminho JSON, ex: "$.data.id"`);
+      } else {
+        fields[field as GenericField] = path;
+      }
+    });
+    if (!fields.order_id) {
+      issues.push(`${prefix}.fields.order_id é obrigatório (base do event_id determinístico)`);
+      return;
+    }
+
+    const actions = parseEventActions(entry.events, `${prefix}.events`, issues);
+    if (Object.keys(actions).length === 0) issues.push(`${prefix}.events deve mapear ao menos um evento`);
+    if (entry.event_type !== undefined && (typeof entry.event_type !== "string" || !entry.event_type)) {
+      issues.push(`${prefix}.event_type deve ser um caminho JSON`);
+    }
+    const valueDivisor = entry.value_divisor === undefined ? 1 : Number(entry.value_divisor);
+    if (!(valueDivisor > 0)) issues.push(`${prefix}.value_divisor deve ser maior que zero`);
+
+    sources[name] = {
+      name,
+      auth: { header, algorithm: algorithm as GenericSourceConfig["auth"]["algorithm"], secrets },
+      eventType: typeof entry.event_type === "string" ? entry.event_type : undefined,
+      actions,
+      fields: fields as GenericSourceConfig["fields"],
+      valueDivisor,
+      eventSourceUrl: typeof entry.event_source_url === "string" ? entry.event_source_url : undefined,
+    };
+  });
+  return sources;
+}
+
+export function loadConfig(env: Env = process.env): CapiConfig {
+  const issues: string[] = [];
+
+  const pixelId = readField(env, "META_PIXEL_ID", issues);
+  const accessToken = readField(env, "META_ACCESS_TOKEN", issues);
+  const graphVersion = readField(env, "META_GRAPH_VERSION", issues);
+
+  const pixels = parsePixels(parseJson(readField(env, "META_PIXELS", issues), "META_PIXELS", issues), graphVersion, issues);
+  if (pixelId && accessToken) {
+    pixels[DEFAULT_PIXEL_KEY] = buildPixelTarget(DEFAULT_PIXEL_KEY, pixelId, accessToken, graphVersion);
+  }
+  const routes = parseRoutes(
+    parseJson(readField(env, "PIXEL_ROUTES", issues), "PIXEL_ROUTES", issues),
+    Object.keys(pixels).concat(DEFAULT_PIXEL_KEY),
+    issues
+  );
+
+  const originsRaw = readField(env, "ALLOWED_ORIGINS", issues);
+  const allowedOrigins = parseOrigins(originsRaw, "ALLOWED_ORIGINS", issues);
+  if (originsRaw && parseList(originsRaw).length === 0) {
+    issues.push("ALLOWED_ORIGINS não contém nenhuma origem válida");
+  }
+
+  let defaultEventSourceUrl = readField(env, "DEFAULT_EVENT_SOURCE_URL", issues) || allowedOrigins[0];
+  if (defaultEventSourceUrl) {
+    try {
+      defaultEventSourceUrl = new URL(defaultEventSourceUrl).toString().replace(/\/$/, "");
+    } catch {
+      issues.push(`DEFAULT_EVENT_SOURCE_URL: "${defaultEventSourceUrl}" não é uma URL válida`);
+    }
+  }
+
+  const hotmart: HotmartSecrets = {
+    hottoks: parseList(readField(env, "HOTMART_HOTTOK", issues)),
+    hmacSecrets: parseList(readField(env, "HOTMART_HMAC_SECRETS", issues)),
+  };
+
+  const hotmartEventIds = parseEventIdSchemes(
+    parseJson(readField(env, "HOTMART_EVENT_ID_SCHEMES", issues), "HOTMART_EVENT_ID_SCHEMES", issues),
+    issues
+  );
+
+  const hotmartActions = parseEventActions(
+    parseJson(readField(env, "HOTMART_EVENT_ACTIONS", issues), "HOTMART_EVENT_ACTIONS", issues),
+    "HOTMART_EVENT_ACTIONS",
+    issues
+  );
+
+  const sources: SourcesConfig = {
+    kiwify: {
+      tokens: parseList(readField(env, "KIWIFY_WEBHOOK_TOKEN", issues)),
+      actions: parseEventActions(
+        parseJson(readField(env, "KIWIFY_EVENT_ACTIONS", issues), "KIWIFY_EVENT_ACTIONS", issues),
+        "KIWIFY_EVENT_ACTIONS",
+        issues
+      ),
+    },
+    eduzz: {
+      secrets: parseList(readField(env, "EDUZZ_WEBHOOK_SECRET", issues)),
+      actions: parseEventActions(
+        parseJson(readField(env, "EDUZZ_EVENT_ACTIONS", issues), "EDUZZ_EVENT_ACTIONS", issues),
+        "EDUZZ_EVENT_ACTIONS",
+        issues
+      ),
+    },
+    stripe: {
+      secrets: parseList(readField(env, "STRIPE_WEBHOOK_SECRET", issues)),
+      actions: parseEventActions(
+        parseJson(readField(env, "STRIPE_EVENT_ACTIONS", issues), "STRIPE_EVENT_ACTIONS", issues),
+        "STRIPE_EVENT_ACTIONS",
+        issues
+      ),
+      toleranceSeconds: Number(readField(env, "STRIPE_SIGNATURE_TOLERANCE_SECONDS", issues)),
+    },
+    generic: parseGenericWebhooks(parseJson(readField(env, "GENERIC_WEBHOOKS", issues), "GENERIC_WEBHOOKS", issues), issues),
+  };
+
+  const redisUrl = readField(env, "REDIS_REST_URL", issues) || env.KV_REST_API_URL?.trim();
+  const redisToken = readField(env, "REDIS_REST_TOKEN", issues) || env.KV_REST_API_TOKEN?.trim();
+  const redis: RedisConfig | null = redisUrl && redisToken ? { url: redisUrl, token: redisToken } : null;
+
+  const dedup: DedupConfig = {
+    store: readField(env, "DEDUP_STORE", issues) as DedupStoreKind,
+    ttlMs: Math.round(Number(readField(env, "DEDUP_TTL_HOURS", issues)) * 60 * 60 * 1000),
+    maxEntries: Number(readField(env, "DEDUP_MAX_ENTRIES", issues)),
+    filePath: readField(env, "DEDUP_FILE_PATH", issues),
+  };
+  if (dedup.store === "redis" && !redis) {
+    issues.push("DEDUP_STORE=redis exige REDIS_REST_URL e REDIS_REST_TOKEN (ou KV_REST_API_URL/KV_REST_API_TOKEN)");
+  }
+  if (dedup.ttlMs <= 0) issues.push("DEDUP_TTL_HOURS deve ser maior que zero");
+  if (dedup.maxEntries <= 0) issues.push("DEDUP_MAX_ENTRIES deve ser maior que zero");
+
+  const retry: RetryConfig = {
+    enabled: readField(env, "RETRY_QUEUE_ENABLED", issues) === "true",
+    store: readField(env, "RETRY_QUEUE_STORE", issues) as RetryQueueStoreKind,
+    filePath: readField(env, "RETRY_QUEUE_PATH", issues),
+    maxAttempts: Number(readField(env, "RETRY_MAX_ATTEMPTS", issues)),
+    baseDelayMs: Number(readField(env, "RETRY_BASE_DELAY_SECONDS", issues)) * 1000,
+    maxDelayMs: Number(readField(env, "RETRY_MAX_DELAY_SECONDS", issues)) * 1000,
+    maxJobs: Number(readField(env, "RETRY_QUEUE_MAX_JOBS", issues)),
+  };
+  if (retry.enabled && retry.store === "redis" && !redis) {
+    issues.push("RETRY_QUEUE_STORE=redis exige REDIS_REST_URL e REDIS_REST_TOKEN (ou KV_REST_API_URL/KV_REST_API_TOKEN)");
+  }
+  if (retry.maxAttempts < 2) issues.push("RETRY_MAX_ATTEMPTS deve ser pelo menos 2");
+  if (retry.baseDelayMs > retry.maxDelayMs) {
+    issues.push("RETRY_BASE_DELAY_SECONDS não pode ser maior que RETRY_MAX_DELAY_SECONDS");
+  }
+
+  const audit: AuditConfig = {
+    enabled: readField(env, "AUDIT_LOG_ENABLED", issues) === "true",
+    dir: readField(env, "AUDIT_LOG_DIR", issues),
+    retentionDays: Number(readField(env, "AUDIT_RETENTION_DAYS", issues)),
+  };
+  if (audit.retentionDays < 1) issues.push("AUDIT_RETENTION_DAYS deve ser pelo menos 1");
+
+  const batch: BatchConfig = {
+    enabled: readField(env, "BATCH_ENABLED", issues) === "true",
+    maxEvents: Number(readField(env, "BATCH_MAX_EVENTS", issues)),
+    maxBytes: Number(readField(env, "BATCH_MAX_BYTES", issues)),
+    maxDelayMs: Number(readField(env, "BATCH_MAX_DELAY_MS", issues)),
+  };
+  if (batch.maxEvents < 1 || batch.maxEvents > META_MAX_EVENTS_PER_REQUEST) {
+    issues.push(`BATCH_MAX_EVENTS deve estar entre 1 e ${META_MAX_EVENTS_PER_REQUEST}`);
+  }
+  if (batch.maxBytes < 2048) issues.push("BATCH_MAX_BYTES deve ser pelo menos 2048");
+  // ⚠️ Na Vercel a função congela após o 202: o lote em memória nunca é enviado
+  if (batch.enabled && env.VERCEL) {
+    issues.push("BATCH_ENABLED=true não é suportado na Vercel - os eventos em lote se perdem após o 202");
+  }
+
+  const rateLimit: RateLimitConfig = {
+    store: readField(env, "RATE_LIMIT_STORE", issues) as RateLimitStoreKind,
+    policies: {
+      frontend: parseRatePolicy(env, "RATE_LIMIT_FRONTEND", "frontend", issues),
+      hotmart: parseRatePolicy(env, "RATE_LIMIT_HOTMART", "hotmart", issues),
+      webhook: parseRatePolicy(env, "RATE_LIMIT_WEBHOOKS", "webhook", issues),
+      admin: parseRatePolicy(env, "RATE_LIMIT_ADMIN", "admin", issues),
+    },
+  };
+  if (rateLimit.store === "redis" && !redis) {
+    issues.push("RATE_LIMIT_STORE=redis exige REDIS_REST_URL e REDIS_REST_TOKEN (ou KV_REST_API_URL/KV_REST_API_TOKEN)");
+  }
+
+  const botFilter: BotFilterConfig = {
+    mode: readField(env, "BOT_FILTER_MODE", issues) as BotFilterMode,
+    maxEventsPerMinute: Number(readField(env, "BOT_MAX_EVENTS_PER_MINUTE", issues)),
+  };
+  if (botFilter.maxEventsPerMinute < 1) issues.push("BOT_MAX_EVENTS_PER_MINUTE deve ser pelo menos 1");
+
+  const cookies: CookieConfig = {
+    domain: readField(env, "COOKIE_DOMAIN", issues),
+    maxAgeDays: Number(readField(env, "COOKIE_MAX_AGE_DAYS", issues)),
+  };
+  if (cookies.maxAgeDays < 1 || cookies.maxAgeDays > 400) {
+    issues.push("COOKIE_MAX_AGE_DAYS deve estar entre 1 e 400");
+  }
+
+  const identity: IdentityConfig = {
+    sources: parseList(readField(env, "IDENTITY_SOURCES", issues)) as IdentitySource[],
+    secret: readField(env, "IDENTITY_SECRET", issues),
+    cookieName: readField(env, "IDENTITY_COOKIE_NAME", issues),
+    hotmartParam: readField(env, "IDENTITY_HOTMART_PARAM", issues) as IdentityConfig["hotmartParam"],
+    hotmartPrefix: readField(env, "IDENTITY_HOTMART_PREFIX", issues),
+  };
+
+  const geoSources = readField(env, "GEO_ENRICHMENT", issues);
+  const geo: GeoConfig = {
+    sources: geoSources === "off" ? [] : (parseList(geoSources) as GeoSource[]),
+    databasePath: readField(env, "GEO_DATABASE_PATH", issues),
+  };
+  if (geo.sources.includes("database") && !geo.databasePath) {
+    issues.push("GEO_ENRICHMENT com database exige GEO_DATABASE_PATH");
+  }
+
+  const ga4: Ga4Config = {
+    measurementId: readField(env, "GA4_MEASUREMENT_ID", issues),
+    apiSecret: readField(env, "GA4_API_SECRET", issues),
+    events: parseList(readField(env, "GA4_EVENTS", issues)),
+  };
+  if (!ga4.measurementId !== !ga4.apiSecret) {
+    issues.push("GA4_MEASUREMENT_ID e GA4_API_SECRET devem ser configurados juntos");
+  }
+
+  const tiktok: TiktokConfig = {
+    pixelCode: readField(env, "TIKTOK_PIXEL_CODE", issues),
+    accessToken: readField(env, "TIKTOK_ACCESS_TOKEN", issues),
+    events: parseList(readField(env, "TIKTOK_EVENTS", issues)),
+    testEventCode: readField(env, "TIKTOK_TEST_EVENT_CODE", issues),
+  };
+  if (!tiktok.pixelCode !== !tiktok.accessToken) {
+    issues.push("TIKTOK_PIXEL_CODE e TIKTOK_ACCESS_TOKEN devem ser configurados juntos");
+  }
+
+  const cronSecret = readField(env, "CRON_SECRET", issues);
+  const metricsToken = readField(env, "METRICS_TOKEN", issues);
+
+  const pii: PiiConfig = {
+    sources: parseList(readField(env, "PII_ENRICHMENT_SOURCES", issues)) as PiiSource[],
+    cpfAsExternalId: readField(env, "PII_CPF_AS_EXTERNAL_ID", issues) === "true",
+    defaultCountryCode: readField(env, "PII_DEFAULT_COUNTRY_CODE", issues),
+  };
+
+  const consent: ConsentConfig = {
+    defaultDecision: readField(env, "CONSENT_DEFAULT", issues) as ConsentDecision,
+    cookieName: readField(env, "CONSENT_COOKIE_NAME", issues),
+  };
+
+  const logging: LoggerConfig = {
+    level: readField(env, "LOG_LEVEL", issues) as LogLevel,
+    successSampleRate: Number(readField(env, "LOG_SUCCESS_SAMPLE_RATE", issues)),
+  };
+
+  const validation: ValidationConfig = {
+    customEventNames: parseList(readField(env, "CUSTOM_EVENT_NAMES", issues)),
+  };
+
+  const testMode: TestModeConfig = {
+    testEventCode: readField(env, "META_TEST_EVENT_CODE", issues),
+    dryRun: readField(env, "DRY_RUN", issues) === "true",
+    adminToken: readField(env, "ADMIN_TOKEN", issues),
+  };
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  return {
+    meta: {
+      graphVersion,
+      pixels,
+    },
+    routes,
+    allowedOrigins,
+    defaultEventSourceUrl,
+    hotmart,
+    hotmartEventIds,
+    hotmartActions,
+    sources,
+    dedup,
+    redis,
+    retry,
+    cronSecret,
+    metricsToken,
+    pii,
+    consent,
+    logging,
+    validation,
+    testMode,
+    batch,
+    rateLimit,
+    botFilter,
+    cookies,
+    identity,
+    geo,
+    ga4,
+    tiktok,
+    audit,
+  };
+}
+
+// ✅ Memoizado por instância: a validação roda uma vez no cold start.
+// Falhas NÃO são memoizadas: cada requisição volta a reportar a lista completa de problemas.
+let cachedConfig: CapiConfig | null = null;
+
+export function getConfig(): CapiConfig {
+  if (!cachedConfig) {
+    cachedConfig = loadConfig(process.env);
+    configureLogger(cachedConfig.logging);
+  }
+  return cachedConfig;
+}
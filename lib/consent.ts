@@ -0,0 +1,192 @@
+// ✅ ENCAMINHAMENTO CONFORME CONSENTIMENTO (LGPD)
+// O frontend informa o consentimento do visitante em um objeto `consent` (no corpo
+// ou em cada evento), em uma string TCF v2 do CMP ou no cookie cap_consent.
+// Decisão por evento:
+// - forward:   consentimento de anúncios → evento completo
+// - downgrade: só analytics → sem fbp, fbc, IP e user agent (nada que identifique o navegador)
+// - drop:      nenhum consentimento → evento não sai do proxy
+// Sem sinal algum, vale CONSENT_DEFAULT (padrão forward = comportamento anterior).
+// Webhooks Hotmart não passam por aqui: a compra é registrada no servidor da Hotmart.
+
+export type ConsentDecision = "forward" | "downgrade" | "drop";
+
+export type ConsentSignalSource = "event" | "body" | "tcf" | "cookie" | "default";
+
+export interface ConsentConfig {
+  defaultDecision: ConsentDecision;
+  cookieName: string;
+}
+
+// Formato aceito no campo `consent` (corpo ou evento). Booleanos ou "granted"/"denied".
+export interface ConsentSignal {
+  ads?: boolean | string;
+  analytics?: boolean | string;
+  tcf?: string; // TC string TCF v2 do CMP
+  us_privacy?: string; // string CCPA "1YNN": 3º caractere "Y" = opt-out de venda
+  ldu?: boolean; // força Limited Data Use da Meta
+}
+
+export interface ConsentResult {
+  decision: ConsentDecision;
+  source: ConsentSignalSource;
+  limitedDataUse: boolean;
+}
+
+export interface ConsentSummary {
+  default_decision: ConsentDecision;
+  forwarded: number;
+  downgraded: number;
+  dropped: number;
+  decisions: Array<{ event_id: string; decision: ConsentDecision; source: ConsentSignalSource }>;
+}
+
+// Campos de user_data removidos no downgrade
+export const BROWSER_IDENTIFIERS = ["fbp", "fbc", "client_ip_address", "client_user_agent"];
+
+// ==================== TCF v2 ====================
+// Propósitos IAB: 1 = armazenar/acessar informações no dispositivo, 3/4 = perfil e
+// seleção de anúncios personalizados, 7 = medir desempenho de anúncios.
+const TCF_ADS_PURPOSES = [1, 3, 4];
+const TCF_ANALYTICS_PURPOSES = [1, 7];
+// Version(6) Created(36) LastUpdated(36) CmpId(12) CmpVersion(12) ConsentScreen(6)
+// ConsentLanguage(12) VendorListVersion(12) TcfPolicyVersion(6) IsServiceSpecific(1)
+// UseNonStandardTexts(1) SpecialFeatureOptIns(12) → PurposesConsent começa no bit 152
+const TCF_PURPOSES_OFFSET = 152;
+
+function decodeTcfPurposes(tcString: string): Set<number> | null {
+  const core = tcString.split(".")[0];
+  if (!core || !/^[A-Za-z0-9_-]+$/.test(core)) return null;
+
+  const bytes = Buffer.from(core, "base64url");
+  const bits = Array.from(bytes, (byte) => byte.toString(2).padStart(8, "0")).join("");
+  if (bits.length < TCF_PURPOSES_OFFSET + 24 || parseInt(bits.slice(0, 6), 2) !== 2) return null;
+
+  const purposes = new Set<number>();
+  for (let purpose = 1; purpose <= 24; purpose++) {
+    if (bits[TCF_PURPOSES_OFFSET + purpose - 1] === "1") purposes.add(purpose);
+  }
+  return purposes;
+}
+
+// ==================== SINAIS ====================
+function isGranted(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  if (typeof value !== "string") return undefined;
+  const normalized = value.trim().toLowerCase();
+  if (["granted", "true", "yes", "1"].includes(normalized)) return true;
+  if (["denied", "false", "no", "0"].includes(normalized)) return false;
+  return undefined;
+}
+
+// Cookie cap_consent: JSON com o mesmo formato de ConsentSignal, ou atalhos
+// "all"/"granted" (anúncios + analytics), "analytics" e "none"/"denied"
+export function parseConsentCookie(value: string | undefined): ConsentSignal | null {
+  if (!value) return null;
+  let decoded = value;
+  try {
+    decoded = decodeURIComponent(value).trim();
+  } catch {
+    // Valor não codificado - usado como veio
+  }
+
+  const shorthand = decoded.toLowerCase();
+  if (shorthand === "all" || shorthand === "granted") return { ads: true, analytics: true };
+  if (shorthand === "analytics") return { ads: false, analytics: true };
+  if (shorthand === "none" || shorthand === "denied") return { ads: false, analytics: false };
+
+  try {
+    const parsed = JSON.parse(decoded);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as ConsentSignal) : null;
+  } catch {
+    return null;
+  }
+}
+
+function asSignal(value: unknown): ConsentSignal | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as ConsentSignal) : null;
+}
+
+// Sinal explícito (ads/analytics) tem prioridade sobre a TC string do mesmo objeto
+function decideFromSignal(signal: ConsentSignal): { decision: ConsentDecision; fromTcf: boolean } | null {
+  let ads = isGranted(signal.ads);
+  let analytics = isGranted(signal.analytics);
+  let fromTcf = false;
+
+  if ((ads === undefined || analytics === undefined) && typeof signal.tcf === "string") {
+    const purposes = decodeTcfPurposes(signal.tcf);
+    if (purposes) {
+      if (ads === undefined) ads = TCF_ADS_PURPOSES.every((purpose) => purposes.has(purpose));
+      if (analytics === undefined) analytics = TCF_ANALYTICS_PURPOSES.every((purpose) => purposes.has(purpose));
+      fromTcf = true;
+    }
+  }
+
+  if (ads === undefined && analytics === undefined) return null;
+  if (ads) return { decision: "forward", fromTcf };
+  if (analytics) return { decision: "downgrade", fromTcf };
+  return { decision: "drop", fromTcf };
+}
+
+function requiresLimitedDataUse(signal: ConsentSignal | null): boolean {
+  if (!signal) return false;
+  if (signal.ldu === true) return true;
+  return typeof signal.us_privacy === "string" && signal.us_privacy.charAt(2).toUpperCase() === "Y";
+}
+
+// Ordem de precedência: evento → corpo da requisição → cookie → CONSENT_DEFAULT
+export function resolveConsent(
+  eventConsent: unknown,
+  bodyConsent: unknown,
+  cookieValue: string | undefined,
+  config: ConsentConfig
+): ConsentResult {
+  const candidates: Array<[ConsentSignal | null, ConsentSignalSource]> = [
+    [asSignal(eventConsent), "event"],
+    [asSignal(bodyConsent), "body"],
+    [parseConsentCookie(cookieValue), "cookie"],
+  ];
+
+  for (const [signal, source] of candidates) {
+    if (!signal) continue;
+    const decided = decideFromSignal(signal);
+    if (decided) {
+      return {
+        decision: decided.decision,
+        source: decided.fromTcf ? "tcf" : source,
+        limitedDataUse: requiresLimitedDataUse(signal),
+      };
+    }
+  }
+
+  return {
+    decision: config.defaultDecision,
+    source: "default",
+    limitedDataUse: candidates.some(([signal]) => requiresLimitedDataUse(signal)),
+  };
+}
+
+// Campos data_processing_options da Meta. Com LDU, país/estado 0 deixam a Meta
+// geolocalizar pelo IP; sem LDU, o array vazio declara explicitamente "sem restrição".
+export function dataProcessingOptions(result: ConsentResult): Record<string, unknown> {
+  if (result.limitedDataUse) {
+    return {
+      data_processing_options: ["LDU"],
+      data_processing_options_country: 0,
+      data_processing_options_state: 0,
+    };
+  }
+  return { data_processing_options: [] };
+}
+
+export function summarizeConsent(
+  decisions: Array<{ event_id: string; decision: ConsentDecision; source: ConsentSignalSource }>,
+  config: ConsentConfig
+): ConsentSummary {
+  return {
+    default_decision: config.defaultDecision,
+    forwarded: decisions.filter((entry) => entry.decision === "forward").length,
+    downgraded: decisions.filter((entry) => entry.decision === "downgrade").length,
+    dropped: decisions.filter((entry) => entry.decision === "drop").length,
+    decisions,
+  };
+}
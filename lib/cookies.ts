@@ -0,0 +1,122 @@
+// ✅ COOKIES PRIMÁRIOS _fbp/_fbc DEFINIDOS PELO SERVIDOR
+// O Safari (ITP) limita a 7 dias os cookies gravados por JavaScript - é assim que o Pixel
+// grava _fbp/_fbc, e a atribuição quebra para quem volta depois de uma semana. O proxy
+// (cap.<domínio>) lê os cookies que o navegador manda, gera _fbp quando falta, monta _fbc a
+// partir do fbclid da URL com o horário real do clique e regrava os dois via Set-Cookie com
+// Domain=COOKIE_DOMAIN: cookie HTTP do próprio site não sofre o limite de 7 dias.
+// Sem COOKIE_DOMAIN o proxy só lê os cookies (nada é gerado nem gravado).
+// Só chamar com consentimento de anúncios: _fbp/_fbc são identificadores do navegador.
+
+import { randomInt } from "crypto";
+
+export interface CookieConfig {
+  domain?: string; // ex: digitalpaisagismo.com (o proxy precisa estar em um subdomínio dele)
+  maxAgeDays: number;
+}
+
+export const FBP_COOKIE = "_fbp";
+export const FBC_COOKIE = "_fbc";
+
+// fb.<subdomainIndex>.<criação em ms>.<random | fbclid>
+const FBP_PATTERN = /^fb\.[0-9]+\.[0-9]{13}\.[0-9]+$/;
+const FBC_PATTERN = /^fb\.[0-9]+\.[0-9]{13}\.[A-Za-z0-9_-]{15,}$/;
+const FBCLID_PATTERN = /^[A-Za-z0-9_-]{15,}$/;
+
+export interface BrowserIdInput {
+  cookies?: Record<string, string>;
+  eventSourceUrl?: string;
+  clickTimeMs: number; // horário do evento em que o fbclid apareceu na URL
+}
+
+export interface BrowserIds {
+  fbp?: string;
+  fbc?: string;
+  fbpSource?: "cookie" | "generated";
+  fbcSource?: "cookie" | "url";
+}
+
+// Índice de subdomínio da Meta: "com" = 0, "site.com" = 1, "www.site.com" = 2
+export function subdomainIndex(domain?: string): number {
+  return domain ? domain.replace(/^\./, "").split(".").length - 1 : 1;
+}
+
+export function fbclidFromUrl(url?: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    const fbclid = new URL(url).searchParams.get("fbclid");
+    return fbclid && FBCLID_PATTERN.test(fbclid) ? fbclid : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function buildFbc(fbclid: string, clickTimeMs: number, domain?: string): string {
+  return `fb.${subdomainIndex(domain)}.${Math.floor(clickTimeMs)}.${fbclid}`;
+}
+
+export function generateFbp(now: number, domain?: string): string {
+  return `fb.${subdomainIndex(domain)}.${now}.${randomInt(1000000000, 2147483647)}`;
+}
+
+export function isValidFbp(value?: string): boolean {
+  return !!value && FBP_PATTERN.test(value);
+}
+
+export function isValidFbc(value?: string): boolean {
+  return !!value && FBC_PATTERN.test(value);
+}
+
+export function resolveBrowserIds(input: BrowserIdInput, config: CookieConfig, now: number = Date.now()): BrowserIds {
+  const ids: BrowserIds = {};
+  const fbpCookie = input.cookies?.[FBP_COOKIE];
+  const fbcCookie = input.cookies?.[FBC_COOKIE];
+
+  if (isValidFbp(fbpCookie)) {
+    ids.fbp = fbpCookie;
+    ids.fbpSource = "cookie";
+  } else if (config.domain) {
+    ids.fbp = generateFbp(now, config.domain);
+    ids.fbpSource = "generated";
+  }
+
+  // Mesmo fbclid do cookie = mesmo clique: mantém o cookie e o horário original do clique
+  const fbclid = fbclidFromUrl(input.eventSourceUrl);
+  if (fbclid && !(isValidFbc(fbcCookie) && fbcCookie.endsWith(`.${fbclid}`))) {
+    ids.fbc = buildFbc(fbclid, Math.min(input.clickTimeMs, now), config.domain);
+    ids.fbcSource = "url";
+  } else if (isValidFbc(fbcCookie)) {
+    ids.fbc = fbcCookie;
+    ids.fbcSource = "cookie";
+  }
+  return ids;
+}
+
+// ==================== SET-COOKIE ====================
+// O navegador recusa Domain que não cubra o host da requisição: confere antes de gravar
+export function canSetCookies(config: CookieConfig, host?: string): boolean {
+  if (!config.domain || !host) return false;
+  const hostname = host.split(":")[0].toLowerCase();
+  const domain = config.domain.replace(/^\./, "").toLowerCase();
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+// _fbp/_fbc ficam sem HttpOnly: o Pixel precisa lê-los no navegador (e não gera outros por cima)
+export function serializeCookie(name: string, value: string, config: CookieConfig, httpOnly: boolean = false): string {
+  return [
+    `${name}=${value}`,
+    `Domain=${config.domain.replace(/^\./, "")}`,
+    "Path=/",
+    `Max-Age=${config.maxAgeDays * 24 * 60 * 60}`,
+    "Secure",
+    ...(httpOnly ? ["HttpOnly"] : []),
+    "SameSite=Lax",
+  ].join("; ");
+}
+
+// Regrava também os cookies já existentes: cada visita renova a validade completa
+export function browserIdCookies(ids: BrowserIds, config: CookieConfig): string[] {
+  const cookies: string[] = [];
+  if (ids.fbp) cookies.push(serializeCookie(FBP_COOKIE, ids.fbp, config));
+  if (ids.fbc) cookies.push(serializeCookie(FBC_COOKIE, ids.fbc, config));
+  return cookies;
+}
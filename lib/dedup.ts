@@ -0,0 +1,292 @@
+// ✅ DEDUPLICAÇÃO PLUGÁVEL (DedupStore)
+// - memory: Map por instância (comportamento original, perdido no cold start)
+// - redis:  SET NX PX atômico, compartilhado entre instâncias serverless
+// - file:   arquivo JSONL append-only para self-hosting (um único processo)
+// Todas as implementações expiram entradas pelo mesmo TTL (padrão 6h).
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { logger } from "./logger";
+import { recordDedupLookup } from "./metrics";
+import { RedisRestClient, RedisConfig } from "./redis";
+
+export type DedupStoreKind = "memory" | "redis" | "file";
+
+export interface DedupConfig {
+  store: DedupStoreKind;
+  ttlMs: number;
+  maxEntries: number;
+  filePath: string;
+}
+
+export interface DedupStore {
+  readonly kind: DedupStoreKind;
+  // Set-if-not-exists atômico: true se o evento é novo (e foi registrado agora)
+  markIfNew(eventId: string): Promise<boolean>;
+  // Libera o registro quando a entrega falhou, para que um retry (cliente ou fila) não seja
+  // bloqueado como duplicata. O registro só permanece quando a Meta aceita o evento.
+  forget(eventId: string): Promise<void>;
+  // Quantidade de entradas vivas; null quando a implementação não consegue medir barato
+  size(): Promise<number | null>;
+}
+
+// ==================== MEMÓRIA ====================
+// O TTL é igual para todas as entradas, então a ordem de inserção do Map é também a
+// ordem de expiração: a limpeza só percorre o início do Map até achar uma entrada viva
+// (custo amortizado O(1) por chamada, em vez de varrer as 50k entradas).
+export class MemoryDedupStore implements DedupStore {
+  readonly kind: DedupStoreKind = "memory";
+  private readonly entries = new Map<string, number>(); // eventId → expiresAt
+
+  constructor(private readonly ttlMs: number, private readonly maxEntries: number) {}
+
+  private sweepExpired(now: number): number {
+    let removed = 0;
+    const iterator = this.entries.entries();
+    let next = iterator.next();
+    while (!next.done && next.value[1] <= now) {
+      this.entries.delete(next.value[0]);
+      removed++;
+      next = iterator.next();
+    }
+    return removed;
+  }
+
+  private evictOverflow(): number {
+    let removed = 0;
+    const iterator = this.entries.keys();
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = iterator.next();
+      if (oldest.done) break;
+      this.entries.delete(oldest.value);
+      removed++;
+    }
+    return removed;
+  }
+
+  markIfNewSync(eventId: string, now: number = Date.now()): boolean {
+    const cleaned = this.sweepExpired(now);
+    if (cleaned > 0) {
+      logger.debug("Cache de deduplicação limpo", { expired_removed: cleaned });
+    }
+
+    const expiresAt = this.entries.get(eventId);
+    if (expiresAt !== undefined && expiresAt > now) return false;
+
+    const evicted = this.evictOverflow();
+    if (evicted > 0) {
+      logger.warn("Cache de deduplicação cheio - eventos mais antigos removidos", {
+        evicted,
+        size: this.entries.size,
+        max_entries: this.maxEntries,
+      });
+    }
+
+    // delete + set move a chave para o fim do Map, mantendo a ordem de expiração
+    this.entries.delete(eventId);
+    this.entries.set(eventId, now + this.ttlMs);
+    return true;
+  }
+
+  // Usado pelo FileDedupStore ao recarregar o arquivo (preserva a expiração original)
+  restore(eventId: string, expiresAt: number): void {
+    this.entries.delete(eventId);
+    this.entries.set(eventId, expiresAt);
+  }
+
+  forgetSync(eventId: string): boolean {
+    return this.entries.delete(eventId);
+  }
+
+  liveEntries(now: number = Date.now()): Array<[string, number]> {
+    this.sweepExpired(now);
+    return Array.from(this.entries.entries());
+  }
+
+  async markIfNew(eventId: string): Promise<boolean> {
+    return this.markIfNewSync(eventId);
+  }
+
+  async forget(eventId: string): Promise<void> {
+    this.forgetSync(eventId);
+  }
+
+  async size(): Promise<number> {
+    this.sweepExpired(Date.now());
+    return this.entries.size;
+  }
+}
+
+// ==================== REDIS ====================
+const REDIS_KEY_PREFIX = "capi:dedup:";
+
+export class RedisDedupStore implements DedupStore {
+  readonly kind: DedupStoreKind = "redis";
+
+  constructor(private readonly client: RedisRestClient, private readonly ttlMs: number) {}
+
+  async markIfNew(eventId: string): Promise<boolean> {
+    // SET NX retorna "OK" quando a chave foi criada e null quando já existia
+    const result = await this.client.command<string | null>([
+      "SET",
+      `${REDIS_KEY_PREFIX}${eventId}`,
+      Date.now(),
+      "NX",
+      "PX",
+      this.ttlMs,
+    ]);
+    return result === "OK";
+  }
+
+  async forget(eventId: string): Promise<void> {
+    await this.client.command(["DEL", `${REDIS_KEY_PREFIX}${eventId}`]);
+  }
+
+  async size(): Promise<null> {
+    // Contar chaves por prefixo exigiria SCAN no keyspace inteiro - não vale o custo por requisição
+    return null;
+  }
+}
+
+// ==================== ARQUIVO (SELF-HOSTING) ====================
+// Cada linha: {"id": "...", "exp": 1700000000000}; exp 0 marca um forget (tombstone).
+// O arquivo é compactado (reescrito só com entradas vivas) quando acumula o dobro de linhas mortas.
+const COMPACT_MIN_LINES = 1000;
+
+export class FileDedupStore implements DedupStore {
+  readonly kind: DedupStoreKind = "file";
+  private readonly memory: MemoryDedupStore;
+  private loading: Promise<void> | null = null;
+  private lineCount = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string, private readonly ttlMs: number, maxEntries: number) {
+    this.memory = new MemoryDedupStore(ttlMs, maxEntries);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        let content = "";
+        try {
+          content = await fs.readFile(this.filePath, "utf8");
+        } catch (error: unknown) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+          await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        }
+
+        const now = Date.now();
+        const latest = new Map<string, number>();
+        content.split("\n").forEach((line) => {
+          if (!line.trim()) return;
+          this.lineCount++;
+          try {
+            const entry = JSON.parse(line);
+            if (typeof entry.id === "string" && typeof entry.exp === "number") {
+              latest.set(entry.id, entry.exp);
+            }
+          } catch {
+            // Linha corrompida (ex: escrita interrompida) - ignorada e removida na próxima compactação
+          }
+        });
+        const loaded = Array.from(latest.entries()).filter(([, exp]) => exp > now);
+        loaded.sort((a, b) => a[1] - b[1]).forEach(([id, exp]) => this.memory.restore(id, exp));
+        logger.info("Cache de deduplicação carregado do arquivo", { file: this.filePath, active_events: loaded.length });
+      })().catch((error: unknown) => {
+        // Falha de leitura (EACCES, EMFILE...) não fica em cache: a próxima chamada tenta de novo
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  // Serializa escritas no arquivo para que append e compactação não se intercalem
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async compactIfNeeded(): Promise<void> {
+    const live = this.memory.liveEntries();
+    if (this.lineCount < COMPACT_MIN_LINES || this.lineCount < live.length * 2) return;
+
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    const content = live.map(([id, exp]) => JSON.stringify({ id, exp })).join("\n");
+    await fs.writeFile(tmpPath, content ? `${content}\n` : "");
+    await fs.rename(tmpPath, this.filePath);
+    logger.info("Arquivo de deduplicação compactado", { lines_before: this.lineCount, lines_after: live.length });
+    this.lineCount = live.length;
+  }
+
+  async markIfNew(eventId: string): Promise<boolean> {
+    await this.load();
+    const now = Date.now();
+    if (!this.memory.markIfNewSync(eventId, now)) return false;
+
+    await this.enqueue(async () => {
+      await fs.appendFile(this.filePath, `${JSON.stringify({ id: eventId, exp: now + this.ttlMs })}\n`);
+      this.lineCount++;
+      await this.compactIfNeeded();
+    });
+    return true;
+  }
+
+  async forget(eventId: string): Promise<void> {
+    await this.load();
+    if (!this.memory.forgetSync(eventId)) return;
+
+    await this.enqueue(async () => {
+      await fs.appendFile(this.filePath, `${JSON.stringify({ id: eventId, exp: 0 })}\n`);
+      this.lineCount++;
+    });
+  }
+
+  async size(): Promise<number> {
+    await this.load();
+    return this.memory.size();
+  }
+}
+
+// ==================== FACTORY ====================
+export function createDedupStore(config: DedupConfig, redis: RedisConfig | null): DedupStore {
+  switch (config.store) {
+    case "redis":
+      return new RedisDedupStore(new RedisRestClient(redis), config.ttlMs);
+    case "file":
+      return new FileDedupStore(config.filePath, config.ttlMs, config.maxEntries);
+    default:
+      return new MemoryDedupStore(config.ttlMs, config.maxEntries);
+  }
+}
+
+// Uma instância por processo: o store de memória/arquivo precisa sobreviver entre requisições
+let dedupStore: DedupStore | null = null;
+
+export function getDedupStore(config: DedupConfig, redis: RedisConfig | null): DedupStore {
+  if (!dedupStore || dedupStore.kind !== config.store) {
+    dedupStore = createDedupStore(config, redis);
+  }
+  return dedupStore;
+}
+
+// ==================== CONSULTA ====================
+// Reserva o event_id e diz se ele já tinha passado por aqui
+export async function isDuplicateEvent(store: DedupStore, eventId: string): Promise<boolean> {
+  try {
+    if (await store.markIfNew(eventId)) {
+      recordDedupLookup(false);
+      logger.success("Evento adicionado ao cache de deduplicação", { store: store.kind, event_id: eventId });
+      return false;
+    }
+    recordDedupLookup(true);
+    logger.warn("Evento duplicado bloqueado", { store: store.kind, event_id: eventId });
+    return true;
+  } catch (error: unknown) {
+    // Fail-open: preferimos arriscar uma duplicata (a Meta também deduplica por event_id)
+    // a perder um evento porque o store ficou indisponível
+    logger.error("Falha no store de deduplicação - evento liberado", { store: store.kind, event_id: eventId, error });
+    return false;
+  }
+}
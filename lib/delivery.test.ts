@@ -0,0 +1,108 @@
+// 🧪 Fan-out com falha transitória em dois pixels: cada pixel ganha um job na fila de retry e a
+// drenagem precisa entregar o evento aos DOIS (a reserva de deduplicação não pode fazer o
+// segundo job achar que o evento já foi entregue por outro caminho).
+//   npm test
+
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import type { CapiConfig, PixelTarget } from "./config";
+import { MemoryDedupStore } from "./dedup";
+import { deliverToPixels, drainRetryQueue } from "./delivery";
+import { configureLogger } from "./logger";
+import { FileRetryQueue } from "./retry-queue";
+import type { EventData } from "./types";
+
+configureLogger({ level: "error", successSampleRate: 0 });
+
+function pixel(key: string, pixelId: string): PixelTarget {
+  return { key, pixelId, accessToken: "token", eventsUrl: `https://graph.facebook.com/v19.0/${pixelId}/events` };
+}
+
+const PIXELS = { default: pixel("default", "111"), loja: pixel("loja", "222") };
+const CONFIG = { meta: { pixels: PIXELS }, audit: { enabled: false } } as unknown as CapiConfig;
+
+// Resposta da Graph API por chamada; guarda o pixel de cada envio
+function mockMeta(responses: Array<{ status: number; body: unknown }>): string[] {
+  const calls: string[] = [];
+  globalThis.fetch = (async (url: string) => {
+    calls.push(String(url).split("/")[4]);
+    const response = responses[Math.min(calls.length - 1, responses.length - 1)];
+    return new Response(JSON.stringify(response.body), { status: response.status });
+  }) as typeof fetch;
+  return calls;
+}
+
+describe("deliverToPixels + drainRetryQueue", () => {
+  const originalFetch = globalThis.fetch;
+  let dir: string;
+  let queue: FileRetryQueue;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "capi-delivery-"));
+    queue = new FileRetryQueue({
+      enabled: true,
+      store: "file",
+      filePath: path.join(dir, "retry-queue.json"),
+      maxAttempts: 5,
+      baseDelayMs: 0,
+      maxDelayMs: 0,
+      maxJobs: 100,
+    });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reenvia aos dois pixels quando ambos falham de forma transitória", async () => {
+    const event: EventData = { event_name: "Lead", event_id: "lead_1", event_time: Math.floor(Date.now() / 1000) };
+    const dedupStore = new MemoryDedupStore(60 * 60 * 1000, 1000);
+    assert.equal(await dedupStore.markIfNew(event.event_id), true);
+
+    mockMeta([{ status: 503, body: { error: { message: "Service unavailable", code: 2, is_transient: true } } }]);
+    const results = await deliverToPixels(
+      [
+        { target: PIXELS.default, events: [event] },
+        { target: PIXELS.loja, events: [event] },
+      ],
+      { dedupStore, retryQueue: queue }
+    );
+    assert.deepEqual(
+      results.map((result) => result.retry),
+      ["queued", "queued"]
+    );
+    assert.equal(await queue.size(), 2);
+
+    // backoff 0: os jobs vencem no milissegundo seguinte
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const calls = mockMeta([{ status: 200, body: { events_received: 1, fbtrace_id: "trace" } }]);
+    const summary = await drainRetryQueue(queue, CONFIG, dedupStore, Date.now() + 60 * 1000);
+
+    assert.equal(summary.delivered, 2);
+    assert.equal(summary.remaining, 0);
+    assert.deepEqual(calls.sort(), ["111", "222"]);
+  });
+
+  it("não reenvia quando o retry do cliente já entregou o evento", async () => {
+    const event: EventData = { event_name: "Lead", event_id: "lead_2", event_time: Math.floor(Date.now() / 1000) };
+    const dedupStore = new MemoryDedupStore(60 * 60 * 1000, 1000);
+    await dedupStore.markIfNew(event.event_id);
+
+    mockMeta([{ status: 503, body: { error: { message: "Service unavailable", code: 2, is_transient: true } } }]);
+    await deliverToPixels([{ target: PIXELS.default, events: [event] }], { dedupStore, retryQueue: queue });
+
+    // Retry do navegador passou pela deduplicação e reservou o event_id de novo
+    assert.equal(await dedupStore.markIfNew(event.event_id), true);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const calls = mockMeta([{ status: 200, body: { events_received: 1 } }]);
+    const summary = await drainRetryQueue(queue, CONFIG, dedupStore, Date.now() + 60 * 1000);
+
+    assert.equal(summary.delivered, 1);
+    assert.deepEqual(calls, []);
+  });
+});
@@ -0,0 +1,240 @@
+// ✅ ENTREGA COM COMMIT DE DEDUPLICAÇÃO E FILA DE RETRY
+// O event_id é reservado no DedupStore antes do envio (evita corrida entre requisições
+// simultâneas), mas a reserva só é mantida se ao menos um pixel aceitou o evento.
+// Evento que falhou em todos os pixels tem a reserva liberada: o retry do cliente
+// (ou da Hotmart) volta a passar, e a fila de retry re-reserva antes de reenviar.
+
+import { AuditRecord, buildAuditRecords, FileAuditLog, getAuditLog } from "./audit";
+import type { CapiConfig } from "./config";
+import type { DedupStore } from "./dedup";
+import { logger } from "./logger";
+import { recordEvents } from "./metrics";
+import { isTransientFailure, META_TIMEOUT_MS, PixelDeliveryResult, requiresOperatorAction, sendToMeta } from "./meta";
+import type { PixelBatch } from "./routing";
+import type { DrainSummary, RetryJob, RetryOutcome, RetryQueue } from "./retry-queue";
+import type { EventData } from "./types";
+
+export type RetryDisposition = "queued" | "not_retryable" | "queue_full" | "disabled";
+
+export interface PixelDeliveryReport extends PixelDeliveryResult {
+  retry?: RetryDisposition;
+}
+
+export interface DeliveryOptions {
+  dedupStore: DedupStore;
+  retryQueue: RetryQueue | null;
+  userAgent?: string;
+  testEventCode?: string;
+  source?: string; // rótulo "source" das métricas e da auditoria (padrão frontend)
+  audit?: FileAuditLog | null;
+}
+
+// Meta recusa eventos com event_time mais antigo que 7 dias
+const MAX_EVENT_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+async function releaseClaims(dedupStore: DedupStore, eventIds: string[]): Promise<void> {
+  for (const eventId of eventIds) {
+    try {
+      await dedupStore.forget(eventId);
+    } catch (error: unknown) {
+      logger.error("Não foi possível liberar a deduplicação", { store: dedupStore.kind, event_id: eventId, error });
+    }
+  }
+}
+
+// 🚨 Token expirado/sem permissão não se resolve com retry: log de alerta dedicado
+// (campo "alert") para disparar notificação no agregador de logs
+function alertIfOperatorActionRequired(result: PixelDeliveryResult): void {
+  if (!requiresOperatorAction(result)) return;
+  logger.error("ALERTA: Meta recusou as credenciais do pixel - eventos não serão entregues até a correção", {
+    alert: `meta_${result.error.category}`,
+    pixel: result.pixel_key,
+    pixel_id: result.pixel_id,
+    code: result.error.code,
+    subcode: result.error.subcode,
+    message: result.error.message,
+    fbtrace_id: result.fbtrace_id,
+  });
+}
+
+export async function deliverToPixels(batches: PixelBatch[], options: DeliveryOptions): Promise<PixelDeliveryReport[]> {
+  const results: PixelDeliveryReport[] = await Promise.all(
+    batches.map((batch) =>
+      sendToMeta(batch.target, batch.events, { userAgent: options.userAgent, testEventCode: options.testEventCode })
+    )
+  );
+
+  const delivered = new Set<string>();
+  const forwarded: EventData[] = [];
+  results.forEach((result, index) => {
+    if (!result.ok) return;
+    batches[index].events.forEach((event) => {
+      // Fan-out para vários pixels conta o evento uma vez só
+      if (!delivered.has(event.event_id)) forwarded.push(event);
+      delivered.add(event.event_id);
+    });
+  });
+  recordEvents("forwarded", options.source || "frontend", forwarded);
+  if (options.audit) {
+    await options.audit.append(
+      buildAuditRecords(batches, results, { source: options.source || "frontend", testEventCode: options.testEventCode })
+    );
+  }
+
+  const released = new Set<string>();
+  // Fan-out com falha em vários pixels: só o primeiro job enfileirado re-reserva o event_id.
+  // Se todos re-reservassem, o primeiro a drenar venceria e os outros tomariam a própria
+  // reserva por "entregue por outro caminho" - o evento nunca chegaria aos demais pixels.
+  // Os outros jobs reenviam sem reservar (reenvio duplicado a Meta deduplica pelo event_id).
+  const reclaimOwned = new Set<string>();
+  for (let index = 0; index < results.length; index++) {
+    const result = results[index];
+    if (result.ok) continue;
+    alertIfOperatorActionRequired(result);
+
+    const batch = batches[index];
+    const undelivered = batch.events.map((event) => event.event_id).filter((id) => id && !delivered.has(id));
+    await releaseClaims(options.dedupStore, undelivered.filter((id) => !released.has(id)));
+    undelivered.forEach((id) => released.add(id));
+
+    if (!isTransientFailure(result)) {
+      result.retry = "not_retryable";
+      continue;
+    }
+    if (!options.retryQueue) {
+      result.retry = "disabled";
+      continue;
+    }
+    const reclaimIds = undelivered.filter((id) => !reclaimOwned.has(id));
+    const job = await options.retryQueue.enqueue({
+      pixel_key: batch.target.key,
+      events: batch.events,
+      reclaim_event_ids: reclaimIds,
+      last_error: result.error,
+      test_event_code: options.testEventCode,
+    });
+    result.retry = job ? "queued" : "queue_full";
+    if (job) {
+      reclaimIds.forEach((id) => reclaimOwned.add(id));
+      logger.warn("Lote enfileirado para retry", {
+        job: job.id,
+        pixel: batch.target.key,
+        events: batch.events.length,
+        next_attempt_at: new Date(job.next_attempt_at).toISOString(),
+      });
+    }
+  }
+
+  return results;
+}
+
+// ==================== DRENAGEM DA FILA ====================
+async function retryJob(job: RetryJob, config: CapiConfig, dedupStore: DedupStore): Promise<RetryOutcome> {
+  const target = config.meta.pixels[job.pixel_key];
+  if (!target) return { status: "drop", reason: `pixel "${job.pixel_key}" não existe mais na configuração` };
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const reclaimed: string[] = [];
+  const events: EventData[] = [];
+
+  for (const event of job.events) {
+    if (nowSeconds - Number(event.event_time) > MAX_EVENT_AGE_SECONDS) continue;
+    if (job.reclaim_event_ids.includes(event.event_id)) {
+      // Outro caminho (retry do cliente, outro job) já entregou este evento
+      if (!(await dedupStore.markIfNew(event.event_id))) continue;
+      reclaimed.push(event.event_id);
+    }
+    events.push(event);
+  }
+
+  if (events.length === 0) return { status: "delivered" };
+
+  const result = await sendToMeta(target, events, {
+    userAgent: "DigitalPaisagismo-CAPI-Retry/1.0",
+    testEventCode: job.test_event_code,
+  });
+  const audit = getAuditLog(config.audit);
+  if (audit) {
+    await audit.append(
+      buildAuditRecords([{ target, events }], [result], { source: "retry_queue", testEventCode: job.test_event_code })
+    );
+  }
+  if (result.ok) {
+    recordEvents("forwarded", "retry_queue", events);
+    return { status: "delivered" };
+  }
+
+  await releaseClaims(dedupStore, reclaimed);
+  if (!isTransientFailure(result)) {
+    alertIfOperatorActionRequired(result);
+    return { status: "drop", reason: `erro permanente da Meta (${result.error?.category}, HTTP ${result.http_status})` };
+  }
+  // Mantém no job apenas os eventos ainda válidos para a próxima tentativa
+  job.events = events;
+  return { status: "retry", error: result.error };
+}
+
+export async function drainRetryQueue(
+  queue: RetryQueue,
+  config: CapiConfig,
+  dedupStore: DedupStore,
+  deadline: number
+): Promise<DrainSummary> {
+  return queue.drain((job) => retryJob(job, config, dedupStore), { deadline, jobTimeoutMs: META_TIMEOUT_MS });
+}
+
+// ==================== REPLAY (LOG DE AUDITORIA) ====================
+// Reenvia o payload gravado, sem passar pela deduplicação: o replay é uma decisão explícita
+// do operador. Sem test_event_code o evento vai ao pixel real - a Meta ainda deduplica pelo
+// event_id dentro da janela dela.
+export interface ReplaySkipped {
+  id: string;
+  event_id: string;
+  reason: "pixel_not_configured" | "too_old" | "duplicate";
+}
+
+export interface ReplaySummary {
+  replayed: number;
+  results: PixelDeliveryResult[];
+  skipped: ReplaySkipped[];
+}
+
+export async function replayAuditRecords(
+  records: AuditRecord[],
+  config: CapiConfig,
+  audit: FileAuditLog | null,
+  testEventCode?: string
+): Promise<ReplaySummary> {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const skipped: ReplaySkipped[] = [];
+  const groups = new Map<string, { events: EventData[]; replayOf: Record<string, string> }>();
+
+  records.forEach((record) => {
+    const skip = (reason: ReplaySkipped["reason"]) => skipped.push({ id: record.id, event_id: record.event_id, reason });
+    if (!config.meta.pixels[record.pixel_key]) return skip("pixel_not_configured");
+    if (nowSeconds - Number(record.payload.event_time) > MAX_EVENT_AGE_SECONDS) return skip("too_old");
+    const group = groups.get(record.pixel_key) || { events: [], replayOf: {} };
+    // O mesmo evento pode ter vários registros (envio original + retry): reenvia uma vez por pixel
+    if (group.replayOf[record.event_id]) return skip("duplicate");
+    group.events.push(record.payload);
+    group.replayOf[record.event_id] = record.id;
+    groups.set(record.pixel_key, group);
+  });
+
+  const results: PixelDeliveryResult[] = [];
+  for (const [pixelKey, group] of Array.from(groups.entries())) {
+    const target = config.meta.pixels[pixelKey];
+    const result = await sendToMeta(target, group.events, { userAgent: "DigitalPaisagismo-CAPI-Replay/1.0", testEventCode });
+    if (audit) {
+      await audit.append(
+        buildAuditRecords([{ target, events: group.events }], [result], {
+          source: "replay",
+          testEventCode,
+          replayOf: group.replayOf,
+        })
+      );
+    }
+    results.push(result);
+  }
+  return { replayed: results.reduce((total, result) => total + (result.ok ? result.events.length : 0), 0), results, skipped };
+}
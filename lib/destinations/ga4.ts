@@ -0,0 +1,290 @@
+// ✅ DESTINO GA4 (Measurement Protocol) - opcional, ao lado da Meta CAPI
+// Os mesmos eventos enriquecidos viram eventos GA4 (Purchase → purchase com transaction_id/value/
+// currency/items, Lead → generate_lead...). A entrega é independente: falha no GA4 não muda o
+// status da Meta e vice-versa - cada destino tem o próprio resultado na resposta.
+// client_id vem do cookie _ga (mesmo usuário do gtag no navegador); sem ele, é derivado do
+// external_id para que o visitante continue o mesmo entre eventos.
+// 🍪 Consentimento: downgrade (só analytics) ainda envia - o GA4 é analytics - mas com
+// ad_user_data/ad_personalization DENIED e sem email; drop nunca chega aqui.
+// O GA4 descarta purchase repetido com o mesmo transaction_id, então o reenvio de um webhook
+// após falha da Meta não duplica receita.
+
+import type { ConsentDecision } from "../consent";
+import { hashSHA256 } from "../hash";
+import { logger } from "../logger";
+import type { EventData } from "../types";
+
+export interface Ga4Config {
+  measurementId?: string;
+  apiSecret?: string;
+  events: string[]; // nomes Meta encaminhados ao GA4 (GA4_EVENTS)
+}
+
+export interface Ga4EventInput {
+  event: EventData;
+  consent: ConsentDecision;
+  clientId?: string; // do cookie _ga; ausente → derivado do external_id
+  sessionId?: string; // do cookie _ga_<ID>
+}
+
+export interface Ga4Event {
+  name: string;
+  params: Record<string, unknown>;
+}
+
+export interface Ga4Payload {
+  client_id: string;
+  timestamp_micros: number;
+  consent: { ad_user_data: "GRANTED" | "DENIED"; ad_personalization: "GRANTED" | "DENIED" };
+  user_data?: { sha256_email_address: string[] };
+  events: Ga4Event[];
+}
+
+export interface Ga4SkippedEvent {
+  event_id?: string;
+  event_name?: string;
+  reason: "not_forwarded" | "missing_client_id" | "consent_denied";
+}
+
+export interface Ga4DeliveryResult {
+  destination: "ga4";
+  status: "success" | "error" | "skipped";
+  ok: boolean;
+  http_status?: number;
+  events_sent: number;
+  skipped?: Ga4SkippedEvent[];
+  validation_messages?: unknown[]; // só no endpoint de debug (test_event_code)
+  error?: string;
+}
+
+export interface Ga4SendOptions {
+  debug?: boolean; // 🧪 test_event_code ativo → /debug/mp/collect valida sem registrar
+  userAgent?: string;
+  timeoutMs?: number;
+}
+
+export const GA4_TIMEOUT_MS = 5000;
+export const GA4_MAX_EVENTS_PER_REQUEST = 25;
+
+const GA4_ENDPOINT = "https://www.google-analytics.com/mp/collect";
+const GA4_DEBUG_ENDPOINT = "https://www.google-analytics.com/debug/mp/collect";
+
+// Eventos padrão Meta → eventos recomendados GA4; os demais viram snake_case (PurchaseRefunded → purchase_refunded)
+const GA4_EVENT_NAMES: Record<string, string> = {
+  PageView: "page_view",
+  ViewContent: "view_item",
+  Search: "search",
+  AddToCart: "add_to_cart",
+  AddToWishlist: "add_to_wishlist",
+  InitiateCheckout: "begin_checkout",
+  AddPaymentInfo: "add_payment_info",
+  Purchase: "purchase",
+  PurchaseRefunded: "refund",
+  Lead: "generate_lead",
+  CompleteRegistration: "sign_up",
+};
+
+// Eventos GA4 de e-commerce que levam transaction_id e items
+const TRANSACTION_EVENTS = ["purchase", "refund"];
+
+export function isGa4Enabled(config: Ga4Config): boolean {
+  return !!config.measurementId && !!config.apiSecret;
+}
+
+export function ga4EventName(metaEventName: string): string {
+  return (
+    GA4_EVENT_NAMES[metaEventName] ||
+    metaEventName
+      .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+      .replace(/[^A-Za-z0-9_]/g, "_")
+      .toLowerCase()
+      .slice(0, 40)
+  );
+}
+
+// _ga = "GA1.1.1234567890.1700000000" → client_id "1234567890.1700000000"
+export function clientIdFromGaCookie(value: string | undefined): string | undefined {
+  const match = value?.match(/^GA\d\.\d+\.(\d+\.\d+)$/);
+  return match ? match[1] : undefined;
+}
+
+// _ga_<ID> = "GS1.1.1700000000.3.1..." ou "GS2.1.s1700000000$o3$g1..." → session_id "1700000000"
+export function sessionIdFromGaCookie(value: string | undefined): string | undefined {
+  const match = value?.match(/^GS\d\.\d+\.s?(\d+)/);
+  return match ? match[1] : undefined;
+}
+
+export function ga4SessionCookieName(measurementId: string): string {
+  return `_ga_${measurementId.replace(/^G-/, "")}`;
+}
+
+// Mesmo formato do _ga (dois inteiros): estável por external_id, sem expor o hash original
+export function derivedClientId(externalId: string): string {
+  const digest = hashSHA256(`ga4:${externalId}`);
+  return `${parseInt(digest.slice(0, 8), 16)}.${parseInt(digest.slice(8, 16), 16)}`;
+}
+
+function ga4Items(customData: Record<string, unknown>): Record<string, unknown>[] | undefined {
+  const contentName = typeof customData.content_name === "string" ? customData.content_name : undefined;
+  if (Array.isArray(customData.contents) && customData.contents.length > 0) {
+    return customData.contents.map((content: Record<string, unknown>) => ({
+      item_id: String(content.id),
+      ...(contentName ? { item_name: contentName } : {}),
+      quantity: Number(content.quantity) || 1,
+      ...(typeof content.item_price === "number" ? { price: content.item_price } : {}),
+    }));
+  }
+  if (Array.isArray(customData.content_ids) && customData.content_ids.length > 0) {
+    return customData.content_ids.map((id) => ({
+      item_id: String(id),
+      ...(contentName ? { item_name: contentName } : {}),
+      quantity: 1,
+    }));
+  }
+  return contentName ? [{ item_name: contentName, quantity: 1 }] : undefined;
+}
+
+export function toGa4Event(event: EventData, sessionId?: string): Ga4Event {
+  const name = ga4EventName(event.event_name || "Lead");
+  const customData = event.custom_data || {};
+  const params: Record<string, unknown> = {
+    // Sem engagement_time_msec o evento não conta o usuário como ativo nos relatórios
+    engagement_time_msec: 1,
+    ...(sessionId ? { session_id: sessionId } : {}),
+    ...(event.event_source_url ? { page_location: event.event_source_url.slice(0, 1000) } : {}),
+  };
+
+  const value = Number(customData.value);
+  if (customData.value !== undefined && Number.isFinite(value)) {
+    params.value = value;
+    params.currency = typeof customData.currency === "string" ? customData.currency.toUpperCase() : "BRL";
+  }
+  if (TRANSACTION_EVENTS.includes(name)) {
+    // event_id como reserva: o mesmo pedido sempre gera o mesmo transaction_id
+    params.transaction_id = String(customData.order_id || event.event_id);
+  }
+  const items = ga4Items(customData);
+  if (items) params.items = items;
+  if (name === "search" && typeof customData.search_string === "string") {
+    params.search_term = customData.search_string;
+  }
+  return { name, params };
+}
+
+export function buildGa4Payloads(
+  inputs: Ga4EventInput[],
+  config: Ga4Config
+): { payloads: Ga4Payload[]; skipped: Ga4SkippedEvent[] } {
+  const skipped: Ga4SkippedEvent[] = [];
+  const payloads: Ga4Payload[] = [];
+  const openPayloads = new Map<string, Ga4Payload>();
+
+  inputs.forEach(({ event, consent, clientId, sessionId }) => {
+    const skip = (reason: Ga4SkippedEvent["reason"]) =>
+      skipped.push({ event_id: event.event_id, event_name: event.event_name, reason });
+    if (consent === "drop") return skip("consent_denied");
+    if (!config.events.includes(event.event_name || "Lead")) return skip("not_forwarded");
+
+    const externalId = event.user_data?.external_id;
+    const resolvedClientId = clientId || (externalId ? derivedClientId(externalId) : undefined);
+    if (!resolvedClientId) return skip("missing_client_id");
+
+    const adsGranted = consent === "forward";
+    const email = adsGranted && typeof event.user_data?.em === "string" ? event.user_data.em : undefined;
+    // Um payload por client_id/consentimento/email (o GA4 aplica esses campos a todos os eventos do payload)
+    const groupKey = `${resolvedClientId}|${consent}|${email || ""}`;
+    let payload = openPayloads.get(groupKey);
+    if (!payload || payload.events.length >= GA4_MAX_EVENTS_PER_REQUEST) {
+      const grant = adsGranted ? "GRANTED" : "DENIED";
+      payload = {
+        client_id: resolvedClientId,
+        timestamp_micros: Number(event.event_time) * 1_000_000,
+        consent: { ad_user_data: grant, ad_personalization: grant },
+        // em já está normalizado (minúsculas, sem espaços) e em SHA-256, o formato pedido pelo GA4
+        ...(email ? { user_data: { sha256_email_address: [email] } } : {}),
+        events: [],
+      };
+      openPayloads.set(groupKey, payload);
+      payloads.push(payload);
+    }
+    payload.events.push(toGa4Event(event, sessionId));
+  });
+
+  return { payloads, skipped };
+}
+
+async function sendToGa4(payload: Ga4Payload, config: Ga4Config, options: Ga4SendOptions) {
+  const endpoint = options.debug ? GA4_DEBUG_ENDPOINT : GA4_ENDPOINT;
+  const url =
+    `${endpoint}?measurement_id=${encodeURIComponent(config.measurementId)}` +
+    `&api_secret=${encodeURIComponent(config.apiSecret)}`;
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": options.userAgent || "DigitalPaisagismo-CAPI-Proxy/1.0",
+    },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(options.timeoutMs || GA4_TIMEOUT_MS),
+  });
+  let validationMessages: unknown[] | undefined;
+  if (options.debug) {
+    try {
+      const data = (await response.json()) as Record<string, unknown>;
+      if (Array.isArray(data.validationMessages)) validationMessages = data.validationMessages;
+    } catch {
+      // Debug sem corpo JSON - mantém apenas o status HTTP
+    }
+  }
+  return { status: response.status, ok: response.ok, validationMessages };
+}
+
+// Nunca lança: o resultado do GA4 é reportado à parte e não interfere na entrega da Meta
+export async function deliverToGa4(
+  inputs: Ga4EventInput[],
+  config: Ga4Config,
+  options: Ga4SendOptions = {}
+): Promise<Ga4DeliveryResult> {
+  const { payloads, skipped } = buildGa4Payloads(inputs, config);
+  const base = { destination: "ga4" as const, ...(skipped.length > 0 ? { skipped } : {}) };
+  if (payloads.length === 0) return { ...base, status: "skipped", ok: true, events_sent: 0 };
+
+  const eventsSent = payloads.reduce((total, payload) => total + payload.events.length, 0);
+  try {
+    const responses = await Promise.all(payloads.map((payload) => sendToGa4(payload, config, options)));
+    const failed = responses.find((response) => !response.ok);
+    const validationMessages = responses.flatMap((response) => response.validationMessages || []);
+    if (failed) logger.warn("Falha ao enviar eventos para o GA4", { http_status: failed.status, events: eventsSent });
+    return {
+      ...base,
+      status: failed ? "error" : "success",
+      ok: !failed,
+      http_status: (failed || responses[0]).status,
+      events_sent: eventsSent,
+      ...(validationMessages.length > 0 ? { validation_messages: validationMessages } : {}),
+      ...(failed ? { error: `GA4 respondeu HTTP ${failed.status}` } : {}),
+    };
+  } catch (error: unknown) {
+    const isTimeout = error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+    logger.warn("Falha ao enviar eventos para o GA4", { error, timeout: isTimeout, events: eventsSent });
+    return {
+      ...base,
+      status: "error",
+      ok: false,
+      http_status: isTimeout ? 408 : 502,
+      events_sent: eventsSent,
+      error: isTimeout ? "Timeout ao enviar evento para o GA4" : error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Dry-run: payloads que seriam enviados (sem api_secret)
+export function dryRunGa4(inputs: Ga4EventInput[], config: Ga4Config) {
+  const { payloads, skipped } = buildGa4Payloads(inputs, config);
+  return {
+    destination: "ga4" as const,
+    measurement_id: config.measurementId,
+    payloads,
+    ...(skipped.length > 0 ? { skipped } : {}),
+  };
+}
@@ -0,0 +1,262 @@
+// ✅ DESTINO TIKTOK (Events API v1.3) - opcional, ao lado da Meta CAPI
+// Mesmo event_id da Meta: o pixel do TikTok no navegador deve usar o mesmo event_id para a
+// deduplicação navegador/servidor. Eventos padrão Meta viram os do TikTok (Lead → SubmitForm,
+// Purchase → CompletePayment...); os demais seguem com o próprio nome como evento customizado.
+// Identificadores do navegador: ttclid (parâmetro do clique no event_source_url) e cookie _ttp
+// do pixel - os dois só com consentimento de anúncios, como _fbp/_fbc.
+// Hash e IP/UA são os mesmos da Meta: em e external_id já chegam normalizados em SHA-256 e o
+// downgrade de consentimento já removeu IP e user-agent do evento.
+// ph não é repassado: a Meta hasheia só os dígitos, o TikTok exige E.164 com "+" antes do hash.
+
+import type { ConsentDecision } from "../consent";
+import { logger } from "../logger";
+import type { EventData } from "../types";
+
+export interface TiktokConfig {
+  pixelCode?: string;
+  accessToken?: string;
+  events: string[]; // nomes Meta encaminhados ao TikTok (TIKTOK_EVENTS)
+  testEventCode?: string; // usado só quando a requisição está em modo de teste
+}
+
+export interface TiktokEventInput {
+  event: EventData;
+  consent: ConsentDecision;
+  ttclid?: string; // do frontend; sem ele, lido do event_source_url
+  ttp?: string; // cookie _ttp
+}
+
+export interface TiktokSkippedEvent {
+  event_id?: string;
+  event_name?: string;
+  reason: "not_forwarded" | "consent_denied";
+}
+
+export interface TiktokDeliveryResult {
+  destination: "tiktok";
+  status: "success" | "error" | "skipped";
+  ok: boolean;
+  http_status?: number;
+  events_sent: number;
+  skipped?: TiktokSkippedEvent[];
+  request_id?: string;
+  error?: string;
+}
+
+export interface TiktokSendOptions {
+  test?: boolean; // 🧪 requisição com test_event_code → TIKTOK_TEST_EVENT_CODE
+  userAgent?: string;
+  timeoutMs?: number;
+}
+
+export const TIKTOK_TIMEOUT_MS = 8000;
+export const TIKTOK_MAX_EVENTS_PER_REQUEST = 1000;
+export const TTP_COOKIE = "_ttp";
+
+const TIKTOK_ENDPOINT = "https://business-api.tiktok.com/open_api/v1.3/event/track/";
+const TTCLID_PATTERN = /^[A-Za-z0-9._-]{10,500}$/;
+
+// Eventos padrão Meta → eventos padrão TikTok
+const TIKTOK_EVENT_NAMES: Record<string, string> = {
+  ViewContent: "ViewContent",
+  Search: "Search",
+  AddToCart: "AddToCart",
+  AddToWishlist: "AddToWishlist",
+  InitiateCheckout: "InitiateCheckout",
+  AddPaymentInfo: "AddPaymentInfo",
+  Purchase: "CompletePayment",
+  Lead: "SubmitForm",
+  CompleteRegistration: "CompleteRegistration",
+  Contact: "Contact",
+  Subscribe: "Subscribe",
+};
+
+export function isTiktokEnabled(config: TiktokConfig): boolean {
+  return !!config.pixelCode && !!config.accessToken;
+}
+
+export function tiktokEventName(metaEventName: string): string {
+  return TIKTOK_EVENT_NAMES[metaEventName] || metaEventName;
+}
+
+export function ttclidFromUrl(url?: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    const ttclid = new URL(url).searchParams.get("ttclid");
+    return ttclid && TTCLID_PATTERN.test(ttclid) ? ttclid : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function tiktokContents(customData: Record<string, unknown>): Record<string, unknown>[] | undefined {
+  const contentName = typeof customData.content_name === "string" ? customData.content_name : undefined;
+  if (Array.isArray(customData.contents) && customData.contents.length > 0) {
+    return customData.contents.map((content: Record<string, unknown>) => ({
+      content_id: String(content.id),
+      ...(contentName ? { content_name: contentName } : {}),
+      quantity: Number(content.quantity) || 1,
+      ...(typeof content.item_price === "number" ? { price: content.item_price } : {}),
+    }));
+  }
+  if (Array.isArray(customData.content_ids) && customData.content_ids.length > 0) {
+    return customData.content_ids.map((id) => ({
+      content_id: String(id),
+      ...(contentName ? { content_name: contentName } : {}),
+      quantity: 1,
+    }));
+  }
+  return undefined;
+}
+
+export function toTiktokEvent(input: TiktokEventInput): Record<string, unknown> {
+  const { event, consent } = input;
+  const userData = event.user_data || {};
+  const customData = event.custom_data || {};
+
+  const user: Record<string, unknown> = {};
+  if (typeof userData.em === "string") user.email = userData.em;
+  if (typeof userData.external_id === "string") user.external_id = userData.external_id;
+  if (typeof userData.client_ip_address === "string") user.ip = userData.client_ip_address;
+  if (typeof userData.client_user_agent === "string") user.user_agent = userData.client_user_agent;
+  // 🍪 ttclid/_ttp identificam o navegador: só com consentimento de anúncios
+  if (consent === "forward") {
+    const ttclid = input.ttclid || ttclidFromUrl(event.event_source_url);
+    if (ttclid) user.ttclid = ttclid;
+    if (input.ttp) user.ttp = input.ttp;
+  }
+
+  const properties: Record<string, unknown> = {};
+  const value = Number(customData.value);
+  if (customData.value !== undefined && Number.isFinite(value)) {
+    properties.value = value;
+    properties.currency = typeof customData.currency === "string" ? customData.currency.toUpperCase() : "BRL";
+  }
+  const contents = tiktokContents(customData);
+  if (contents) properties.contents = contents;
+  if (typeof customData.content_type === "string") properties.content_type = customData.content_type;
+  if (customData.order_id) properties.order_id = String(customData.order_id);
+  if (typeof customData.search_string === "string") properties.query = customData.search_string;
+
+  const limitedDataUse = Array.isArray(event.data_processing_options) && event.data_processing_options.includes("LDU");
+  return {
+    event: tiktokEventName(event.event_name || "Lead"),
+    event_time: Number(event.event_time),
+    event_id: event.event_id,
+    user,
+    properties,
+    ...(event.event_source_url ? { page: { url: event.event_source_url } } : {}),
+    ...(limitedDataUse ? { limited_data_use: true } : {}),
+  };
+}
+
+export function buildTiktokPayloads(
+  inputs: TiktokEventInput[],
+  config: TiktokConfig,
+  options: TiktokSendOptions = {}
+): { payloads: Record<string, unknown>[]; skipped: TiktokSkippedEvent[] } {
+  const skipped: TiktokSkippedEvent[] = [];
+  const data: Record<string, unknown>[] = [];
+  inputs.forEach((input) => {
+    const { event, consent } = input;
+    const skip = (reason: TiktokSkippedEvent["reason"]) =>
+      skipped.push({ event_id: event.event_id, event_name: event.event_name, reason });
+    if (consent === "drop") return skip("consent_denied");
+    if (!config.events.includes(event.event_name || "Lead")) return skip("not_forwarded");
+    data.push(toTiktokEvent(input));
+  });
+
+  const payloads: Record<string, unknown>[] = [];
+  for (let i = 0; i < data.length; i += TIKTOK_MAX_EVENTS_PER_REQUEST) {
+    payloads.push({
+      event_source: "web",
+      event_source_id: config.pixelCode,
+      ...(options.test && config.testEventCode ? { test_event_code: config.testEventCode } : {}),
+      data: data.slice(i, i + TIKTOK_MAX_EVENTS_PER_REQUEST),
+    });
+  }
+  return { payloads, skipped };
+}
+
+async function sendToTiktok(payload: Record<string, unknown>, config: TiktokConfig, options: TiktokSendOptions) {
+  const response = await fetch(TIKTOK_ENDPOINT, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Token": config.accessToken,
+      "User-Agent": options.userAgent || "DigitalPaisagismo-CAPI-Proxy/1.0",
+    },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(options.timeoutMs || TIKTOK_TIMEOUT_MS),
+  });
+  let data: Record<string, unknown> = {};
+  try {
+    data = (await response.json()) as Record<string, unknown>;
+  } catch {
+    // Corpo não-JSON (ex: página de erro de gateway) - mantém apenas o status HTTP
+  }
+  // O TikTok responde HTTP 200 mesmo com erro: o resultado real está em code (0 = OK)
+  return {
+    status: response.status,
+    ok: response.ok && data.code === 0,
+    code: typeof data.code === "number" ? data.code : undefined,
+    message: typeof data.message === "string" ? data.message : undefined,
+    requestId: typeof data.request_id === "string" ? data.request_id : undefined,
+  };
+}
+
+// Nunca lança: o resultado do TikTok é reportado à parte e não interfere na entrega da Meta
+export async function deliverToTiktok(
+  inputs: TiktokEventInput[],
+  config: TiktokConfig,
+  options: TiktokSendOptions = {}
+): Promise<TiktokDeliveryResult> {
+  const { payloads, skipped } = buildTiktokPayloads(inputs, config, options);
+  const base = { destination: "tiktok" as const, ...(skipped.length > 0 ? { skipped } : {}) };
+  if (payloads.length === 0) return { ...base, status: "skipped", ok: true, events_sent: 0 };
+
+  const eventsSent = payloads.reduce((total, payload) => total + (payload.data as unknown[]).length, 0);
+  try {
+    const responses = await Promise.all(payloads.map((payload) => sendToTiktok(payload, config, options)));
+    const failed = responses.find((response) => !response.ok);
+    if (failed) {
+      logger.warn("Falha ao enviar eventos para o TikTok", {
+        http_status: failed.status,
+        code: failed.code,
+        message: failed.message,
+        events: eventsSent,
+      });
+    }
+    return {
+      ...base,
+      status: failed ? "error" : "success",
+      ok: !failed,
+      http_status: (failed || responses[0]).status,
+      events_sent: eventsSent,
+      request_id: (failed || responses[0]).requestId,
+      ...(failed ? { error: failed.message || `TikTok respondeu HTTP ${failed.status}` } : {}),
+    };
+  } catch (error: unknown) {
+    const isTimeout = error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+    logger.warn("Falha ao enviar eventos para o TikTok", { error, timeout: isTimeout, events: eventsSent });
+    return {
+      ...base,
+      status: "error",
+      ok: false,
+      http_status: isTimeout ? 408 : 502,
+      events_sent: eventsSent,
+      error: isTimeout ? "Timeout ao enviar evento para o TikTok" : error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Dry-run: payloads que seriam enviados (sem o access token)
+export function dryRunTiktok(inputs: TiktokEventInput[], config: TiktokConfig, options: TiktokSendOptions = {}) {
+  const { payloads, skipped } = buildTiktokPayloads(inputs, config, options);
+  return {
+    destination: "tiktok" as const,
+    pixel_code: config.pixelCode,
+    payloads,
+    ...(skipped.length > 0 ? { skipped } : {}),
+  };
+}
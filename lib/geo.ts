@@ -0,0 +1,176 @@
+// ✅ GEOLOCALIZAÇÃO PELO IP (quando o frontend não manda ct/st/zp/country)
+// Fontes, na ordem de GEO_ENRICHMENT:
+// - vercel:     headers x-vercel-ip-* (a Vercel sobrescreve o que vier do cliente)
+// - cloudflare: headers cf-ipcountry / cf-ipcity / cf-region-code / cf-postal-code
+//               (só confiar se o tráfego passa obrigatoriamente pela Cloudflare)
+// - database:   banco MaxMind local (.mmdb, ex: GeoLite2-City) em GEO_DATABASE_PATH
+// Cada campo vem da primeira fonte que o tiver. Os valores saem normalizados no formato da
+// Meta (lowercase, sem espaços, UF/país com 2 letras, CEP só com dígitos) prontos para o hash.
+// Webhooks Hotmart não usam a geolocalização (o IP é do servidor da Hotmart), só hashGeoFields.
+
+import { readFileSync } from "fs";
+import { CityResponse, Reader } from "maxmind";
+import { hashSHA256 } from "./hash";
+import { headerValue } from "./http";
+import { logger } from "./logger";
+import { normalizeCity, normalizeCountry, normalizeState, normalizeZip } from "./normalize";
+
+export type GeoSource = "vercel" | "cloudflare" | "database";
+
+export interface GeoConfig {
+  sources: GeoSource[];
+  databasePath?: string;
+}
+
+// Campos de user_data preenchidos pela geolocalização (já normalizados, ainda sem hash)
+export interface GeoFields {
+  ct?: string;
+  st?: string;
+  zp?: string;
+  country?: string;
+}
+
+export const GEO_FIELDS: Array<keyof GeoFields> = ["ct", "st", "zp", "country"];
+
+interface RawGeo {
+  city?: string;
+  region?: string;
+  postal?: string;
+  country?: string;
+}
+
+function decodeHeader(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function fromVercel(headers: Record<string, string | string[] | undefined>): RawGeo {
+  return {
+    city: decodeHeader(headerValue(headers["x-vercel-ip-city"])),
+    region: headerValue(headers["x-vercel-ip-country-region"]),
+    postal: headerValue(headers["x-vercel-ip-postal-code"]),
+    country: headerValue(headers["x-vercel-ip-country"]),
+  };
+}
+
+function fromCloudflare(headers: Record<string, string | string[] | undefined>): RawGeo {
+  // XX = país desconhecido, T1 = Tor
+  const country = headerValue(headers["cf-ipcountry"]);
+  return {
+    city: decodeHeader(headerValue(headers["cf-ipcity"])),
+    region: headerValue(headers["cf-region-code"]),
+    postal: headerValue(headers["cf-postal-code"]),
+    country: country && !["XX", "T1"].includes(country.toUpperCase()) ? country : undefined,
+  };
+}
+
+// ==================== BANCO LOCAL ====================
+// Leitor do pacote maxmind: o arquivo é lido inteiro para a memória uma vez por processo
+let databaseReader: Reader<CityResponse> | null = null;
+let databaseFailed = false;
+
+function openDatabase(path: string): Reader<CityResponse> | null {
+  if (databaseReader || databaseFailed) return databaseReader;
+  try {
+    databaseReader = new Reader<CityResponse>(readFileSync(path));
+    logger.info("Banco de geolocalização carregado", { database_type: databaseReader.metadata.databaseType });
+  } catch (error: unknown) {
+    // Não tenta de novo a cada requisição: o arquivo só muda com novo deploy
+    databaseFailed = true;
+    logger.error("Falha ao abrir banco de geolocalização - fonte database desativada", { error });
+  }
+  return databaseReader;
+}
+
+function fromDatabase(ip: string, path: string): RawGeo {
+  const reader = openDatabase(path);
+  if (!reader) return {};
+  try {
+    const record = reader.get(ip);
+    if (!record) return {};
+    return {
+      city: record.city?.names?.en,
+      region: record.subdivisions?.[0]?.iso_code,
+      postal: record.postal?.code,
+      country: record.country?.iso_code,
+    };
+  } catch (error: unknown) {
+    logger.warn("Falha na consulta ao banco de geolocalização", { error });
+    return {};
+  }
+}
+
+// ==================== RESOLUÇÃO ====================
+export function lookupGeo(
+  headers: Record<string, string | string[] | undefined>,
+  ip: string,
+  config: GeoConfig
+): { fields: GeoFields; sources: Partial<Record<keyof GeoFields, GeoSource>> } {
+  const fields: GeoFields = {};
+  const sources: Partial<Record<keyof GeoFields, GeoSource>> = {};
+
+  for (const source of config.sources) {
+    if (GEO_FIELDS.every((field) => fields[field])) break;
+
+    let raw: RawGeo = {};
+    if (source === "vercel") raw = fromVercel(headers);
+    else if (source === "cloudflare") raw = fromCloudflare(headers);
+    else if (source === "database" && config.databasePath) raw = fromDatabase(ip, config.databasePath);
+
+    const country = raw.country ? normalizeCountry(raw.country) : null;
+    const candidates: GeoFields = {
+      ct: raw.city ? normalizeCity(raw.city) : null,
+      st: raw.region ? normalizeState(raw.region, country || undefined) : null,
+      zp: raw.postal ? normalizeZip(raw.postal, country || undefined) : null,
+      country,
+    };
+    GEO_FIELDS.forEach((field) => {
+      if (!fields[field] && candidates[field]) {
+        fields[field] = candidates[field];
+        sources[field] = source;
+      }
+    });
+  }
+  return { fields, sources };
+}
+
+// ==================== HASH ====================
+const SHA256_PATTERN = /^[a-f0-9]{64}$/i;
+
+// Normaliza e hasheia ct/st/zp/country de qualquer fonte (frontend, Hotmart). O país é
+// normalizado primeiro porque define o formato de st e zp. Hash SHA-256 recebido pronto
+// passa direto; valor que não normaliza fica de fora (e vai para `rejected`).
+export function hashGeoFields(raw: Partial<Record<keyof GeoFields, unknown>>): {
+  fields: GeoFields;
+  rejected: Array<keyof GeoFields>;
+} {
+  const fields: GeoFields = {};
+  const rejected: Array<keyof GeoFields> = [];
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+  const rawCountry = text(raw.country);
+  const country = rawCountry && !SHA256_PATTERN.test(rawCountry) ? normalizeCountry(rawCountry) : null;
+  const normalizers: Record<keyof GeoFields, (value: string) => string | null> = {
+    ct: normalizeCity,
+    st: (value) => normalizeState(value, country || undefined),
+    zp: (value) => normalizeZip(value, country || undefined),
+    country: () => country,
+  };
+
+  GEO_FIELDS.forEach((field) => {
+    const value = text(raw[field]);
+    if (!value) return;
+    if (SHA256_PATTERN.test(value)) {
+      fields[field] = value.toLowerCase();
+      return;
+    }
+    const normalized = normalizers[field](value);
+    if (normalized) fields[field] = hashSHA256(normalized);
+    else rejected.push(field);
+  });
+  return { fields, rejected };
+}
@@ -0,0 +1,22 @@
+import * as crypto from "crypto";
+
+// ✅ REINTRODUZIDO: A função hashSHA256 é necessária como fallback para gerar event_id no servidor.
+export function hashSHA256(input: string): string {
+  return crypto.createHash("sha256").update(input).digest("hex");
+}
+
+// Comparação em tempo constante (evita timing attacks na descoberta de tokens/segredos)
+export function safeEqual(received: string, expected: string): boolean {
+  const a = crypto.createHash("sha256").update(received).digest();
+  const b = crypto.createHash("sha256").update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+// Testa contra TODOS os candidatos, sem curto-circuito, para não vazar qual deles casou
+export function safeEqualAny(received: string, candidates: string[]): boolean {
+  let matched = false;
+  candidates.forEach((candidate) => {
+    if (safeEqual(received, candidate)) matched = true;
+  });
+  return matched;
+}
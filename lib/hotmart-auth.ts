@@ -0,0 +1,58 @@
+// ✅ AUTENTICAÇÃO WEBHOOK HOTMART
+// A Hotmart envia o hottok configurado no painel no header X-HOTMART-HOTTOK.
+// Opcionalmente aceitamos também uma assinatura HMAC-SHA256 do corpo bruto
+// (header X-Hotmart-Signature) calculada com um segredo compartilhado.
+// Vários segredos podem estar ativos ao mesmo tempo para permitir rotação sem downtime.
+
+import * as crypto from "crypto";
+import { headerValue } from "./http";
+import { safeEqualAny } from "./hash";
+import type { HotmartSecrets } from "./config";
+
+export type HotmartAuthFailure =
+  | "not_configured"
+  | "missing_hottok"
+  | "invalid_hottok"
+  | "missing_signature"
+  | "invalid_signature";
+
+export interface HotmartAuthResult {
+  ok: boolean;
+  method?: "hottok" | "hottok+hmac";
+  reason?: HotmartAuthFailure;
+}
+
+function normalizeSignature(signature: string): string {
+  const trimmed = signature.trim().toLowerCase();
+  return trimmed.startsWith("sha256=") ? trimmed.slice("sha256=".length) : trimmed;
+}
+
+export function verifyHotmartWebhook(
+  headers: Record<string, string | string[] | undefined>,
+  rawBody: Buffer,
+  secrets: HotmartSecrets
+): HotmartAuthResult {
+  if (secrets.hottoks.length === 0) {
+    return { ok: false, reason: "not_configured" };
+  }
+
+  const hottok = headerValue(headers["x-hotmart-hottok"]);
+  if (!hottok) return { ok: false, reason: "missing_hottok" };
+  if (!safeEqualAny(hottok, secrets.hottoks)) return { ok: false, reason: "invalid_hottok" };
+
+  if (secrets.hmacSecrets.length === 0) {
+    return { ok: true, method: "hottok" };
+  }
+
+  const signature = headerValue(headers["x-hotmart-signature"]);
+  if (!signature) return { ok: false, reason: "missing_signature" };
+
+  const received = normalizeSignature(signature);
+  const expected = secrets.hmacSecrets.map((secret) =>
+    crypto.createHmac("sha256", secret).update(rawBody).digest("hex")
+  );
+
+  return safeEqualAny(received, expected)
+    ? { ok: true, method: "hottok+hmac" }
+    : { ok: false, reason: "invalid_signature" };
+}
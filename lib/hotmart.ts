@@ -0,0 +1,270 @@
+// ✅ HOTMART: Tipos do webhook 2.0, mapeamento do ciclo de vida e transformação para Meta CAPI
+
+import { hashGeoFields } from "./geo";
+import type { RawIdentity } from "./pii";
+import { EventAction, EventActions, isRecord, resolveEventAction, slugify } from "./sources/adapter";
+import type { EventData } from "./types";
+
+// ==================== INTERFACES HOTMART (CORRIGIDAS) ====================
+export interface HotmartProduct {
+  id: number;
+  name: string;
+  ucode?: string;
+}
+
+export interface HotmartBuyer {
+  email: string;
+  name?: string;
+  checkout_phone?: string;
+  document?: string;
+  address?: {
+    city?: string;
+    country_iso?: string;
+    state?: string;
+    zipcode?: string;
+  };
+}
+
+export interface HotmartSubscription {
+  status?: string;
+  plan?: { id?: number; name?: string };
+  subscriber?: { code?: string };
+}
+
+export interface HotmartSubscriber {
+  code?: string;
+  name?: string;
+  email?: string;
+}
+
+// Eventos PURCHASE_* trazem buyer + purchase; eventos SUBSCRIPTION_* trazem
+// subscriber + subscription e não têm buyer/purchase.
+export interface HotmartWebhookData {
+  product: HotmartProduct;
+  buyer?: HotmartBuyer;
+  checkout_country?: {
+    name?: string;
+    iso?: string;
+  };
+  affiliates?: Array<{
+    affiliate_code?: string;
+    [key: string]: unknown;
+  }>;
+  purchase?: {
+    transaction: string;
+    price: { value: number; currency_value: string };
+    status: string;
+    approved_date?: number;
+    order_date?: number;
+    // Número da cobrança em assinaturas (1 = primeira compra, 2+ = recorrência)
+    recurrence_number?: number;
+    offer?: { code?: string };
+    payment?: {
+      type?: string; // CREDIT_CARD, BILLET, PIX, PAYPAL...
+      installments_number?: number;
+    };
+    // Parâmetros de rastreamento repassados pelo link de checkout (?src=...&sck=...)
+    origin?: {
+      src?: string;
+      sck?: string;
+      xcod?: string;
+    };
+  };
+  subscription?: HotmartSubscription;
+  subscriber?: HotmartSubscriber;
+  cancellation_date?: number;
+  date_next_charge?: number;
+  actual_recurrence_value?: number;
+}
+
+export interface HotmartWebhookPayload {
+  id: string;
+  creation_date: number;
+  event: string;
+  version: string;
+  data: HotmartWebhookData;
+}
+
+// ==================== CICLO DE VIDA (EVENTO HOTMART → EVENTO META) ====================
+// Cada evento Hotmart vira um evento padrão Meta, um evento customizado ou nada.
+// Os padrões abaixo podem ser sobrescritos por evento via HOTMART_EVENT_ACTIONS.
+// Cobranças recorrentes (PURCHASE_APPROVED com recurrence_number > 1) usam a chave
+// sintética SUBSCRIPTION_RECURRING_CHARGE para não inflar o Purchase da primeira venda.
+export const RECURRING_CHARGE_EVENT = "SUBSCRIPTION_RECURRING_CHARGE";
+
+export type HotmartEventAction = EventAction;
+
+export type HotmartEventActions = EventActions;
+
+export const DEFAULT_HOTMART_EVENT_ACTIONS: HotmartEventActions = {
+  PURCHASE_APPROVED: { type: "meta", event_name: "Purchase" },
+  PURCHASE_COMPLETE: { type: "custom", event_name: "PurchaseComplete", action_source: "system_generated" },
+  PURCHASE_REFUNDED: { type: "custom", event_name: "PurchaseRefunded", action_source: "system_generated" },
+  PURCHASE_CHARGEBACK: { type: "custom", event_name: "PurchaseChargeback", action_source: "system_generated" },
+  PURCHASE_CANCELED: { type: "custom", event_name: "PurchaseCanceled", action_source: "system_generated" },
+  // Boleto gerado / pagamento em análise: intenção de compra, ainda sem receita
+  PURCHASE_BILLET_PRINTED: { type: "meta", event_name: "InitiateCheckout" },
+  PURCHASE_DELAYED: { type: "meta", event_name: "InitiateCheckout" },
+  [RECURRING_CHARGE_EVENT]: { type: "meta", event_name: "Subscribe" },
+  SUBSCRIPTION_CANCELLATION: { type: "custom", event_name: "SubscriptionCanceled", action_source: "system_generated" },
+};
+
+export function hotmartActionKey(payload: HotmartWebhookPayload): string {
+  const recurrence = payload.data.purchase?.recurrence_number;
+  if (payload.event === "PURCHASE_APPROVED" && typeof recurrence === "number" && recurrence > 1) {
+    return RECURRING_CHARGE_EVENT;
+  }
+  return payload.event;
+}
+
+export function resolveHotmartAction(
+  payload: HotmartWebhookPayload,
+  overrides: HotmartEventActions = {}
+): { key: string; action: HotmartEventAction } {
+  const key = hotmartActionKey(payload);
+  const action = resolveEventAction(key, DEFAULT_HOTMART_EVENT_ACTIONS, overrides);
+
+  // Eventos de compra sem purchase no corpo não têm transação para gerar event_id
+  if (action.type !== "none" && key.startsWith("PURCHASE_") && !payload.data.purchase) {
+    return { key, action: { type: "none" } };
+  }
+  return { key, action };
+}
+
+// ==================== EVENT_ID DETERMINÍSTICO ====================
+// O event_id do Purchase não pode depender do horário de processamento: a Hotmart
+// reenvia o mesmo webhook em caso de falha e cada retry precisa cair na deduplicação.
+// - transaction: hotmart_<transaction> (padrão)
+// - sck / src:   usa o id que a página de checkout repassou nos parâmetros do link,
+//                o mesmo eventID do Pixel no navegador → Pixel e CAPI deduplicam entre si.
+//                Com "prefix", procura o segmento que começa com o prefixo (ex: sck=eid_abc123|utm)
+//                Sem id válido no parâmetro, cai para o esquema transaction.
+export type HotmartEventIdScheme = "transaction" | "sck" | "src";
+
+export interface HotmartEventIdRule {
+  scheme: HotmartEventIdScheme;
+  prefix?: string;
+}
+
+export interface HotmartEventIdConfig {
+  default: HotmartEventIdRule;
+  products: Record<string, HotmartEventIdRule>;
+}
+
+export const DEFAULT_EVENT_ID_RULE: HotmartEventIdRule = { scheme: "transaction" };
+
+const PASSTHROUGH_EVENT_ID_PATTERN = /^[A-Za-z0-9_.:-]{6,128}$/;
+
+export function eventIdRuleForProduct(config: HotmartEventIdConfig, productId: number | string): HotmartEventIdRule {
+  return config.products[String(productId)] || config.default;
+}
+
+function extractPassthroughId(value: string | undefined, prefix?: string): string | null {
+  if (!value) return null;
+  const segments = value.split(/[|;,]/).map((segment) => segment.trim());
+  const candidate = prefix
+    ? segments.filter((segment) => segment.startsWith(prefix)).map((segment) => segment.slice(prefix.length))[0]
+    : value.trim();
+  return candidate && PASSTHROUGH_EVENT_ID_PATTERN.test(candidate) ? candidate : null;
+}
+
+// Purchase usa o esquema configurado (para casar com o Pixel); os demais eventos do
+// ciclo de vida usam hotmart_<transaction>_<evento>, também determinísticos.
+export function buildHotmartEventId(
+  hotmartData: HotmartWebhookData,
+  rule: HotmartEventIdRule = DEFAULT_EVENT_ID_RULE,
+  eventName: string = "Purchase"
+): { eventId: string; source: HotmartEventIdScheme | "subscription" } {
+  const { purchase, subscription, subscriber } = hotmartData;
+
+  if (!purchase) {
+    const subscriptionRef = subscriber?.code || subscription?.subscriber?.code || String(hotmartData.product.id);
+    const when = hotmartData.cancellation_date || hotmartData.date_next_charge || "";
+    return { eventId: `hotmart_sub_${subscriptionRef}_${slugify(eventName)}${when ? `_${when}` : ""}`, source: "subscription" };
+  }
+
+  if (eventName !== "Purchase") {
+    const recurrence = eventName === "Subscribe" && purchase.recurrence_number ? `_${purchase.recurrence_number}` : "";
+    return { eventId: `hotmart_${purchase.transaction}_${slugify(eventName)}${recurrence}`, source: "transaction" };
+  }
+
+  if (rule.scheme === "sck" || rule.scheme === "src") {
+    const passthroughId = extractPassthroughId(purchase.origin?.[rule.scheme], rule.prefix);
+    if (passthroughId) return { eventId: passthroughId, source: rule.scheme };
+  }
+  return { eventId: `hotmart_${purchase.transaction}`, source: "transaction" };
+}
+
+export const transformHotmartToMeta = (
+  webhookPayload: HotmartWebhookPayload,
+  action: HotmartEventAction,
+  eventIdRule: HotmartEventIdRule = DEFAULT_EVENT_ID_RULE
+): EventData | null => {
+  if (action.type === "none") return null;
+
+  const hotmartData = webhookPayload.data;
+  const { buyer, product, purchase, checkout_country, subscription } = hotmartData;
+
+  // Priorizar checkout_country.iso sobre checkout_country.name para usar códigos ISO 3166-1 alpha-2
+  const countryName = checkout_country?.iso || buyer?.address?.country_iso || checkout_country?.name;
+
+  const customData: Record<string, unknown> = {
+    content_name: product.name,
+    content_ids: [product.id.toString()],
+    content_type: "product",
+    hotmart_event: webhookPayload.event,
+  };
+  if (purchase) {
+    customData.currency = purchase.price.currency_value;
+    customData.value = purchase.price.value;
+    customData.order_id = purchase.transaction;
+    if (purchase.payment?.type) customData.payment_type = purchase.payment.type;
+    if (purchase.offer?.code) customData.offer_code = purchase.offer.code;
+    if (purchase.recurrence_number) customData.recurrence_number = purchase.recurrence_number;
+  } else if (typeof hotmartData.actual_recurrence_value === "number") {
+    customData.value = hotmartData.actual_recurrence_value;
+  }
+  if (subscription?.status) customData.subscription_status = subscription.status;
+  if (subscription?.plan?.name) customData.subscription_plan = subscription.plan.name;
+
+  return {
+    event_name: action.event_name,
+    event_time: Math.floor(webhookPayload.creation_date / 1000),
+    action_source: action.action_source || "website",
+    // ✅ Apenas dados geográficos (PII só com opt-in), normalizados como no frontend antes do hash
+    user_data: {
+      ...hashGeoFields({
+        ct: buyer?.address?.city,
+        st: buyer?.address?.state,
+        zp: buyer?.address?.zipcode,
+        country: countryName,
+      }).fields,
+    },
+    custom_data: customData,
+    event_source_url: "https://hotmart.com",
+    // ✅ DETERMINÍSTICO: retries do mesmo webhook geram o mesmo event_id
+    event_id: buildHotmartEventId(hotmartData, eventIdRule, action.event_name).eventId,
+  };
+};
+
+// Identidade bruta do comprador/assinante para o enriquecimento opt-in de PII
+export function hotmartIdentity(hotmartData: HotmartWebhookData): RawIdentity {
+  const { buyer, subscriber } = hotmartData;
+  return {
+    email: buyer?.email || subscriber?.email,
+    phone: buyer?.checkout_phone,
+    fullName: buyer?.name || subscriber?.name,
+    cpf: buyer?.document,
+  };
+}
+
+// Eventos de compra exigem buyer + purchase; eventos de assinatura só o produto
+export const isHotmartWebhook = (body: unknown): body is HotmartWebhookPayload => {
+  if (!isRecord(body) || typeof body.id !== "string" || typeof body.event !== "string" || !isRecord(body.data) || !body.data.product) {
+    return false;
+  }
+  if (body.event.startsWith("SUBSCRIPTION_") || body.event === "SWITCH_PLAN" || body.event === "UPDATE_SUBSCRIPTION_CHARGE_DATE") {
+    return true;
+  }
+  return Boolean(body.data.buyer && body.data.purchase);
+};
@@ -0,0 +1,82 @@
+// ✅ UTILITÁRIOS HTTP: tipos de requisição/resposta e leitura do corpo bruto
+// O bodyParser do Next.js é desativado nas rotas que precisam validar assinaturas,
+// porque o HMAC precisa ser calculado sobre os bytes exatos recebidos.
+
+export interface RawBodySource {
+  on(event: "data", listener: (chunk: Buffer | string) => void): unknown;
+  on(event: "end", listener: () => void): unknown;
+  on(event: "error", listener: (error: Error) => void): unknown;
+}
+
+// Tipos para requisição e resposta (compatível com Express/Node.js)
+export interface ApiRequestBase {
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  query?: Record<string, string | string[] | undefined>;
+  socket?: {
+    remoteAddress?: string;
+  };
+  cookies?: Record<string, string>;
+}
+
+export interface ApiResponse {
+  status(code: number): ApiResponse;
+  json(data: unknown): void;
+  send(body: string): void;
+  end(): void;
+  setHeader(name: string, value: string | string[]): void;
+}
+
+export const MAX_BODY_BYTES = 1024 * 1024; // 1MB (mesmo limite padrão do Next.js)
+
+export class BodyTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Corpo da requisição excede ${limit} bytes`);
+    this.name = "BodyTooLargeError";
+  }
+}
+
+export function readRawBody(req: RawBodySource, limit: number = MAX_BODY_BYTES): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let aborted = false;
+
+    req.on("data", (chunk) => {
+      if (aborted) return;
+      const buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+      received += buffer.length;
+      if (received > limit) {
+        aborted = true;
+        reject(new BodyTooLargeError(limit));
+        return;
+      }
+      chunks.push(buffer);
+    });
+    req.on("end", () => {
+      if (!aborted) resolve(Buffer.concat(chunks));
+    });
+    req.on("error", (error) => {
+      if (!aborted) reject(error);
+    });
+  });
+}
+
+// Retorna o primeiro valor de um header (headers repetidos chegam como array)
+export function headerValue(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) return value[0];
+  return value;
+}
+
+// Extrai o token de "Authorization: Bearer <token>"
+export function bearerToken(headers: Record<string, string | string[] | undefined>): string | undefined {
+  const authorization = headerValue(headers.authorization);
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+// IP de quem chamou: primeiro valor de X-Forwarded-For (proxy da Vercel) ou o socket
+export function remoteAddress(req: ApiRequestBase): string {
+  const forwarded = headerValue(req.headers["x-forwarded-for"])?.split(",")[0]?.trim();
+  return forwarded || req.socket?.remoteAddress || "unknown";
+}
@@ -0,0 +1,131 @@
+// ✅ EXTERNAL_ID ESTÁVEL
+// Antes, evento sem external_id ganhava um hash de Date.now() + Math.random(): um id novo por
+// evento, inútil para correspondência. Agora o id vem da primeira fonte disponível em
+// IDENTITY_SOURCES:
+// - frontend:       user_data.external_id enviado pela página
+// - visitor_cookie: cookie de visitante emitido e assinado (HMAC) pelo proxy - IDENTITY_SECRET
+// - session_cookie: cookie session_id (vale só para a sessão)
+// Sem fonte, o evento segue sem external_id (melhor que um id aleatório).
+// Checkout: a página coloca o token do visitante no link de checkout (Hotmart/Kiwify: sck=vid_<token>|...,
+// Stripe: client_reference_id); a compra volta no webhook com o mesmo external_id dos eventos do navegador.
+
+import { createHmac, randomBytes } from "crypto";
+import { hashSHA256, safeEqual } from "./hash";
+import type { HotmartEventIdScheme } from "./hotmart";
+import type { EventData } from "./types";
+
+export type IdentitySource = "frontend" | "visitor_cookie" | "session_cookie";
+
+// <fonte>_checkout: token do visitante repassado pelo checkout (hotmart_checkout, kiwify_checkout...)
+export type ExternalIdSource = IdentitySource | `${string}_checkout` | "cpf" | "none";
+
+export interface IdentityConfig {
+  sources: IdentitySource[];
+  secret?: string;
+  cookieName: string;
+  hotmartParam: Exclude<HotmartEventIdScheme, "transaction">;
+  hotmartPrefix: string;
+}
+
+export interface VisitorIdentity {
+  visitorId?: string;
+  token?: string; // <visitorId>.<assinatura> - valor do cookie e do sck
+  issued: boolean;
+}
+
+export interface ResolvedIdentity {
+  externalId?: string;
+  source: ExternalIdSource;
+}
+
+export interface IdentitySummary {
+  visitor_cookie_issued: boolean;
+  sources: Partial<Record<ExternalIdSource, number>>;
+  events: Array<{ event_id: string; external_id_source: ExternalIdSource }>;
+}
+
+const VISITOR_ID_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_.:-]{6,128}$/;
+
+// ==================== COOKIE DE VISITANTE ====================
+function sign(visitorId: string, secret: string): string {
+  return createHmac("sha256", secret).update(visitorId).digest("base64url").slice(0, 32);
+}
+
+export function createVisitorToken(secret: string): { visitorId: string; token: string } {
+  const visitorId = randomBytes(16).toString("base64url");
+  return { visitorId, token: `${visitorId}.${sign(visitorId, secret)}` };
+}
+
+// Token adulterado ou assinado com outro segredo → null (o visitante ganha um id novo)
+export function verifyVisitorToken(token: string | undefined, secret?: string): string | null {
+  if (!token || !secret) return null;
+  const [visitorId, signature] = token.split(".");
+  if (!visitorId || !signature || !VISITOR_ID_PATTERN.test(visitorId)) return null;
+  return safeEqual(signature, sign(visitorId, secret)) ? visitorId : null;
+}
+
+// Mesmo hash nos eventos do navegador e no webhook da Hotmart
+export function visitorExternalId(visitorId: string): string {
+  return hashSHA256(visitorId);
+}
+
+// allowIssue: só emite cookie novo com consentimento de anúncios e COOKIE_DOMAIN gravável
+export function resolveVisitor(
+  cookies: Record<string, string> | undefined,
+  config: IdentityConfig,
+  allowIssue: boolean
+): VisitorIdentity {
+  if (!config.secret || !config.sources.includes("visitor_cookie")) return { issued: false };
+
+  const token = cookies?.[config.cookieName];
+  const visitorId = verifyVisitorToken(token, config.secret);
+  if (visitorId) return { visitorId, token, issued: false };
+
+  if (!allowIssue) return { issued: false };
+  return { ...createVisitorToken(config.secret), issued: true };
+}
+
+// ==================== RESOLUÇÃO POR EVENTO ====================
+export function resolveExternalId(
+  event: EventData,
+  visitor: VisitorIdentity,
+  cookies: Record<string, string> | undefined,
+  config: IdentityConfig,
+  allowVisitor: boolean
+): ResolvedIdentity {
+  for (const source of config.sources) {
+    if (source === "frontend" && event.user_data?.external_id) {
+      return { externalId: event.user_data.external_id, source };
+    }
+    if (source === "visitor_cookie" && allowVisitor && visitor.visitorId) {
+      return { externalId: visitorExternalId(visitor.visitorId), source };
+    }
+    if (source === "session_cookie") {
+      const sessionId = event.session_id || cookies?.session_id;
+      if (sessionId && SESSION_ID_PATTERN.test(sessionId)) return { externalId: hashSHA256(sessionId), source };
+    }
+  }
+  return { source: "none" };
+}
+
+// Parâmetros de checkout podem levar vários segmentos (sck=vid_<token>|utm_x): procura o do prefixo configurado
+export function checkoutVisitorId(value: string | undefined, config: IdentityConfig): string | null {
+  if (!value) return null;
+  const segment = value
+    .split(/[|;,]/)
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(config.hotmartPrefix));
+  return segment ? verifyVisitorToken(segment.slice(config.hotmartPrefix.length), config.secret) : null;
+}
+
+export function summarizeIdentity(
+  results: Array<{ event_id: string; external_id_source: ExternalIdSource }>,
+  visitor: VisitorIdentity
+): IdentitySummary {
+  const sources: Partial<Record<ExternalIdSource, number>> = {};
+  results.forEach((result) => {
+    sources[result.external_id_source] = (sources[result.external_id_source] || 0) + 1;
+  });
+  return { visitor_cookie_issued: visitor.issued, sources, events: results };
+}
@@ -0,0 +1,74 @@
+// ✅ UTILITÁRIOS DE IP: parsing de IPv4/IPv6 e comparação com faixas CIDR
+// Trabalha com o endereço em bytes (4 para IPv4, 16 para IPv6) para não depender de BigInt.
+// IPv4 mapeado em IPv6 (::ffff:1.2.3.4) é tratado como o IPv4 correspondente.
+
+export function parseIPv4(ip: string): number[] | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+  const bytes = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return bytes.every((byte) => byte >= 0 && byte <= 255) ? bytes : null;
+}
+
+export function parseIPv6(ip: string): number[] | null {
+  let clean = ip.replace(/^\[|\]$/g, "").split("%")[0];
+
+  // Sufixo IPv4 (::ffff:1.2.3.4) vira dois grupos hexadecimais
+  const lastColon = clean.lastIndexOf(":");
+  if (clean.includes(".") && lastColon >= 0) {
+    const v4 = parseIPv4(clean.slice(lastColon + 1));
+    if (!v4) return null;
+    clean = `${clean.slice(0, lastColon + 1)}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+
+  const halves = clean.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-fA-F]{1,4}$/.test(group))) return null;
+
+  const bytes: number[] = [];
+  groups.forEach((group) => {
+    const value = parseInt(group, 16);
+    bytes.push(value >> 8, value & 0xff);
+  });
+  return bytes;
+}
+
+const IPV4_MAPPED_PREFIX = [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff];
+
+export function parseIP(ip: string): number[] | null {
+  const v4 = parseIPv4(ip.trim());
+  if (v4) return v4;
+  const v6 = parseIPv6(ip.trim());
+  if (v6 && IPV4_MAPPED_PREFIX.every((byte, index) => v6[index] === byte)) return v6.slice(12);
+  return v6;
+}
+
+export interface Cidr {
+  bytes: number[];
+  prefix: number;
+}
+
+export function parseCidr(cidr: string): Cidr | null {
+  const [address, prefixText] = cidr.trim().split("/");
+  const bytes = parseIP(address);
+  if (!bytes) return null;
+  const maxPrefix = bytes.length * 8;
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) return null;
+  return { bytes, prefix };
+}
+
+export function ipInCidr(ip: number[], cidr: Cidr): boolean {
+  if (ip.length !== cidr.bytes.length) return false;
+  let bits = cidr.prefix;
+  for (let index = 0; bits > 0; index++, bits -= 8) {
+    const mask = bits >= 8 ? 0xff : (0xff << (8 - bits)) & 0xff;
+    if ((ip[index] & mask) !== (cidr.bytes[index] & mask)) return false;
+  }
+  return true;
+}
@@ -0,0 +1,181 @@
+// ✅ LOGGER ESTRUTURADO (JSON por linha, níveis, request_id e redação automática)
+// Cada linha sai como {"ts","level","msg","request_id",...campos}. O request_id vem do
+// header X-Request-Id (ou x-vercel-id) e é propagado via AsyncLocalStorage, sem precisar
+// passar o id de função em função. IPs, click ids (fbc/fbp/fbclid), tokens e PII hasheada
+// são mascarados antes da escrita - tanto por nome de campo quanto dentro de textos.
+// Logs de sucesso de alto volume passam por amostragem (LOG_SUCCESS_SAMPLE_RATE).
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { ApiRequestBase, ApiResponse } from "./http";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LoggerConfig {
+  level: LogLevel;
+  successSampleRate: number; // 0..1 - fração das requisições com logs de sucesso
+}
+
+type LogFields = Record<string, unknown>;
+
+const LEVEL_WEIGHT: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Padrão até o primeiro getConfig(): loga tudo de info para cima, sem amostragem
+let loggerConfig: LoggerConfig = { level: "info", successSampleRate: 1 };
+
+export function configureLogger(config: LoggerConfig): void {
+  loggerConfig = config;
+}
+
+// ==================== CONTEXTO DA REQUISIÇÃO ====================
+interface RequestContext {
+  requestId: string;
+  // Sorteado uma vez por requisição: os logs de sucesso de uma requisição saem todos ou nenhum
+  sampled: boolean;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+function resolveRequestId(headers: ApiRequestBase["headers"]): string {
+  for (const name of ["x-request-id", "x-vercel-id"]) {
+    const value = headers[name];
+    const candidate = Array.isArray(value) ? value[0] : value;
+    if (candidate && REQUEST_ID_PATTERN.test(candidate)) return candidate;
+  }
+  return randomUUID();
+}
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+// Envolve um handler Next.js: define o request_id, devolve no header X-Request-Id
+// e executa o handler dentro do contexto (todos os logs saem correlacionados)
+export function withRequestLogging<Req extends ApiRequestBase, Res extends ApiResponse>(
+  handler: (req: Req, res: Res) => Promise<unknown>
+): (req: Req, res: Res) => Promise<unknown> {
+  return (req: Req, res: Res) => {
+    const requestId = resolveRequestId(req.headers);
+    res.setHeader("X-Request-Id", requestId);
+    const sampled = Math.random() < loggerConfig.successSampleRate;
+    return requestContext.run({ requestId, sampled }, () => handler(req, res));
+  };
+}
+
+// ==================== REDAÇÃO ====================
+const REDACTED = "[REDACTED]";
+
+// Comparação em minúsculas, sem separadores: "client_ip_address" → "clientipaddress"
+const IP_KEYS = [
+  "ip",
+  "clientipaddress",
+  "clientiporiginal",
+  "clientipformatted",
+  "remoteaddress",
+  "address",
+];
+const SECRET_KEYS = ["token", "accesstoken", "authorization", "hottok", "secret", "password", "cookie", "signature"];
+const CLICK_ID_KEYS = ["fbc", "fbp", "fbclid", "gclid", "ttclid"];
+// Hashes de baixa entropia (cidade, estado, CEP, nome) são reversíveis por dicionário
+const PII_KEYS = ["em", "ph", "fn", "ln", "ct", "st", "zp", "country", "cpf", "email", "phone", "geolocations"];
+// Mantém um prefixo curto para correlacionar o mesmo visitante entre linhas de log
+const PARTIAL_KEYS = ["externalid"];
+
+const IPV4_IN_TEXT = /\b(?:\d{1,3}\.){3}\d{1,3}\b/g;
+const IPV6_IN_TEXT = /(?:[0-9a-f]{0,4}:){2,7}(?:[0-9a-f]{1,4}|(?:\d{1,3}\.){3}\d{1,3})?/gi;
+const TEXT_PATTERNS: Array<[RegExp, string]> = [
+  [/access_token=[^&\s"]+/g, `access_token=${REDACTED}`],
+  [/Bearer\s+[A-Za-z0-9._~+/=-]+/g, `Bearer ${REDACTED}`],
+  [/\bEAA[A-Za-z0-9]{20,}/g, REDACTED], // tokens de sistema da Meta
+  [/\bfb\.\d+\.\d+\.[A-Za-z0-9_-]+/g, REDACTED], // fbp/fbc
+  [/fbclid=[^&\s"]+/g, `fbclid=${REDACTED}`],
+];
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function redactText(text: string): string {
+  let result = text;
+  TEXT_PATTERNS.forEach(([pattern, replacement]) => {
+    result = result.replace(pattern, replacement);
+  });
+  result = result.replace(IPV4_IN_TEXT, "[IP]");
+  // Exige "::" ou 3+ ":" para não confundir com horários (12:30:45)
+  return result.replace(IPV6_IN_TEXT, (match) =>
+    match.includes("::") || (match.match(/:/g) || []).length >= 3 ? "[IP]" : match
+  );
+}
+
+function redactValue(key: string, value: unknown, depth: number): unknown {
+  const normalized = normalizeKey(key);
+  if (value === null || value === undefined) return value;
+  if (IP_KEYS.includes(normalized) && typeof value === "string") return "[IP]";
+  if (SECRET_KEYS.some((secret) => normalized.includes(secret))) return REDACTED;
+  if (CLICK_ID_KEYS.includes(normalized) || PII_KEYS.includes(normalized)) {
+    return typeof value === "number" ? value : REDACTED;
+  }
+  if (PARTIAL_KEYS.includes(normalized) && typeof value === "string") {
+    return value.length > 8 ? `${value.slice(0, 8)}…` : REDACTED;
+  }
+  return redact(value, depth + 1);
+}
+
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (depth > 6) return "[...]";
+  if (typeof value === "string") return redactText(value);
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message) };
+  }
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+  if (value && typeof value === "object") {
+    const result: LogFields = {};
+    Object.entries(value as LogFields).forEach(([key, entry]) => {
+      result[key] = redactValue(key, entry, depth);
+    });
+    return result;
+  }
+  return value;
+}
+
+// ==================== ESCRITA ====================
+function write(level: LogLevel, msg: string, fields?: LogFields): void {
+  if (LEVEL_WEIGHT[level] < LEVEL_WEIGHT[loggerConfig.level]) return;
+
+  const entry: LogFields = {
+    ts: new Date().toISOString(),
+    level,
+    msg: redactText(msg),
+    request_id: currentRequestId(),
+    ...((fields ? redact(fields) : {}) as LogFields),
+  };
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    line = JSON.stringify({ ts: entry.ts, level, msg: entry.msg, request_id: entry.request_id, unserializable: true });
+  }
+
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
+
+function isSampled(): boolean {
+  const context = requestContext.getStore();
+  return context ? context.sampled : Math.random() < loggerConfig.successSampleRate;
+}
+
+export const logger = {
+  debug: (msg: string, fields?: LogFields) => write("debug", msg, fields),
+  info: (msg: string, fields?: LogFields) => write("info", msg, fields),
+  warn: (msg: string, fields?: LogFields) => write("warn", msg, fields),
+  error: (msg: string, fields?: LogFields) => write("error", msg, fields),
+  // Sucesso de alto volume (evento enviado, evento novo no cache): sujeito a amostragem
+  success: (msg: string, fields?: LogFields) => {
+    if (isSampled()) write("info", msg, fields);
+  },
+};
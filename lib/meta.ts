@@ -0,0 +1,293 @@
+// ✅ ENVIO PARA META CAPI (um pixel por chamada)
+// Compressão gzip acima de 2048 bytes e timeout de 15s, iguais para frontend e Hotmart.
+// Erros de rede/timeout viram um resultado com ok=false para que o fan-out
+// continue entregando nos demais pixels. A resposta da Graph API é normalizada:
+// erro com categoria tipada + status por event_id (nada do JSON bruto vaza para o cliente).
+
+import * as zlib from "zlib";
+import type { PixelTarget } from "./config";
+import { observeMetaRequest } from "./metrics";
+import type { PixelBatch } from "./routing";
+import { isRecord } from "./sources/adapter";
+import type { EventData } from "./types";
+
+export const META_TIMEOUT_MS = 15000;
+const COMPRESSION_THRESHOLD_BYTES = 2048;
+
+// ==================== ERROS DA GRAPH API ====================
+// invalid_token:       token expirado/revogado (190, 102) - exige ação humana
+// permission_denied:   token sem acesso ao pixel (10, 200-299) - exige ação humana
+// rate_limited:        limites de chamada (4, 17, 32, 613, 80004) ou HTTP 429
+// invalid_parameter:   payload recusado (100, 2804xxx) - repetir não resolve
+// service_unavailable: instabilidade da Meta, timeout ou falha de rede
+export type MetaErrorCategory =
+  | "invalid_token"
+  | "permission_denied"
+  | "rate_limited"
+  | "invalid_parameter"
+  | "service_unavailable"
+  | "unknown";
+
+export interface MetaErrorDetails {
+  category: MetaErrorCategory;
+  message: string;
+  code?: number;
+  subcode?: number;
+  type?: string;
+  user_title?: string;
+  user_message?: string;
+  fbtrace_id?: string;
+  is_transient?: boolean;
+  // Índice do evento no lote apontado pela Meta (ex: "data[2]" na mensagem), quando houver
+  event_index?: number;
+  timeout_ms?: number;
+}
+
+// accepted: aceito pela Meta | unconfirmed: lote aceito, mas events_received < enviados
+// rejected: a Meta apontou ESTE evento como inválido | failed: o lote falhou como um todo
+export type EventDeliveryStatus = "accepted" | "unconfirmed" | "rejected" | "failed";
+
+export interface EventDeliveryResult {
+  event_id: string;
+  status: EventDeliveryStatus;
+  error_category?: MetaErrorCategory;
+  message?: string;
+}
+
+export interface PixelDeliveryResult {
+  pixel_key: string;
+  pixel_id: string;
+  ok: boolean;
+  http_status: number;
+  events_sent: number;
+  events_received?: number;
+  fbtrace_id?: string;
+  messages?: unknown[];
+  error?: MetaErrorDetails;
+  events: EventDeliveryResult[];
+  compressed: boolean;
+}
+
+export interface SendOptions {
+  userAgent?: string;
+  timeoutMs?: number;
+  testEventCode?: string;
+}
+
+// Corpo enviado à Graph API - também devolvido no dry-run, para mostrar exatamente o que sairia
+export function buildMetaPayload(events: EventData[], testEventCode?: string): Record<string, unknown> {
+  return testEventCode ? { data: events, test_event_code: testEventCode } : { data: events };
+}
+
+// 🧪 Dry-run: o payload exato que cada pixel receberia (token fica de fora - vai na URL)
+export function dryRunPixels(batches: PixelBatch[], testEventCode?: string) {
+  return batches.map((batch) => ({
+    pixel_key: batch.target.key,
+    pixel_id: batch.target.pixelId,
+    events: batch.events.length,
+    payload: buildMetaPayload(batch.events, testEventCode),
+  }));
+}
+
+const INVALID_TOKEN_CODES = [102, 190];
+const RATE_LIMIT_CODES = [4, 17, 32, 613, 80004];
+const SERVICE_UNAVAILABLE_CODES = [1, 2, 341];
+const INVALID_PARAMETER_CODES = [100];
+
+function categorize(code: number | undefined, subcode: number | undefined, httpStatus: number): MetaErrorCategory {
+  if (typeof code === "number") {
+    if (INVALID_TOKEN_CODES.includes(code)) return "invalid_token";
+    if (code === 10 || (code >= 200 && code <= 299)) return "permission_denied";
+    if (RATE_LIMIT_CODES.includes(code)) return "rate_limited";
+    if (SERVICE_UNAVAILABLE_CODES.includes(code)) return "service_unavailable";
+    if (INVALID_PARAMETER_CODES.includes(code) || (subcode && String(subcode).startsWith("2804"))) {
+      return "invalid_parameter";
+    }
+  }
+  if (httpStatus === 401) return "invalid_token";
+  if (httpStatus === 403) return "permission_denied";
+  if (httpStatus === 429) return "rate_limited";
+  if (httpStatus === 408 || httpStatus >= 500) return "service_unavailable";
+  if (httpStatus === 400) return "invalid_parameter";
+  return "unknown";
+}
+
+function findEventIndex(...texts: Array<string | undefined>): number | undefined {
+  for (const text of texts) {
+    const match = text?.match(/data\[(\d+)\]/) || text?.match(/event(?:o)? (?:at index |no índice |#)(\d+)/i);
+    if (match) return Number(match[1]);
+  }
+  return undefined;
+}
+
+// Normaliza o corpo de erro da Graph API ({"error": {...}}) ou um corpo qualquer (gateway)
+export function parseMetaError(body: unknown, httpStatus: number): MetaErrorDetails {
+  const envelope = isRecord(body) ? body : {};
+  const raw = isRecord(envelope.error) ? envelope.error : envelope;
+  const code = typeof raw.code === "number" ? raw.code : undefined;
+  const subcode = typeof raw.error_subcode === "number" ? raw.error_subcode : undefined;
+
+  return {
+    category: categorize(code, subcode, httpStatus),
+    message: typeof raw.message === "string" ? raw.message : `Meta respondeu HTTP ${httpStatus}`,
+    code,
+    subcode,
+    type: typeof raw.type === "string" ? raw.type : undefined,
+    user_title: typeof raw.error_user_title === "string" ? raw.error_user_title : undefined,
+    user_message: typeof raw.error_user_msg === "string" ? raw.error_user_msg : undefined,
+    fbtrace_id: typeof raw.fbtrace_id === "string" ? raw.fbtrace_id : undefined,
+    is_transient: typeof raw.is_transient === "boolean" ? raw.is_transient : undefined,
+    event_index: findEventIndex(
+      typeof raw.error_user_msg === "string" ? raw.error_user_msg : undefined,
+      typeof raw.message === "string" ? raw.message : undefined
+    ),
+  };
+}
+
+function eventResults(events: EventData[], ok: boolean, eventsReceived: number | undefined, error?: MetaErrorDetails) {
+  return events.map((event, index): EventDeliveryResult => {
+    const eventId = event.event_id;
+    if (ok) {
+      // A Meta não informa QUAL evento faltou quando events_received < enviados
+      const confirmed = eventsReceived === undefined || eventsReceived >= events.length;
+      return { event_id: eventId, status: confirmed ? "accepted" : "unconfirmed" };
+    }
+    if (error?.event_index === index) {
+      return { event_id: eventId, status: "rejected", error_category: error.category, message: error.user_message || error.message };
+    }
+    // A Graph API recusa o lote inteiro: os demais eventos não foram processados
+    return { event_id: eventId, status: "failed", error_category: error?.category };
+  });
+}
+
+export async function sendToMeta(
+  target: PixelTarget,
+  events: EventData[],
+  options: SendOptions = {}
+): Promise<PixelDeliveryResult> {
+  const jsonPayload = JSON.stringify(buildMetaPayload(events, options.testEventCode));
+  const shouldCompress = Buffer.byteLength(jsonPayload) > COMPRESSION_THRESHOLD_BYTES;
+  const body = shouldCompress ? new Uint8Array(zlib.gzipSync(jsonPayload)) : jsonPayload;
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Connection: "keep-alive",
+    "User-Agent": options.userAgent || "DigitalPaisagismo-CAPI-Proxy/1.0",
+    ...(shouldCompress ? { "Content-Encoding": "gzip" } : {}),
+  };
+
+  const base = {
+    pixel_key: target.key,
+    pixel_id: target.pixelId,
+    events_sent: events.length,
+    compressed: shouldCompress,
+  };
+  const startedAt = Date.now();
+  const observed = (result: PixelDeliveryResult) => {
+    observeMetaRequest(result, Date.now() - startedAt);
+    return result;
+  };
+
+  try {
+    const response = await fetch(`${target.eventsUrl}?access_token=${encodeURIComponent(target.accessToken)}`, {
+      method: "POST",
+      headers,
+      body: body as BodyInit,
+      signal: AbortSignal.timeout(options.timeoutMs || META_TIMEOUT_MS),
+    });
+
+    let data: Record<string, unknown> = {};
+    try {
+      const json: unknown = await response.json();
+      if (isRecord(json)) data = json;
+    } catch {
+      // Corpo não-JSON (ex: página de erro de gateway) - mantém apenas o status HTTP
+    }
+
+    const eventsReceived = typeof data.events_received === "number" ? data.events_received : undefined;
+    const error = response.ok ? undefined : parseMetaError(data, response.status);
+    return observed({
+      ...base,
+      ok: response.ok,
+      http_status: response.status,
+      events_received: eventsReceived,
+      fbtrace_id: typeof data.fbtrace_id === "string" ? data.fbtrace_id : error?.fbtrace_id,
+      messages: Array.isArray(data.messages) && data.messages.length > 0 ? data.messages : undefined,
+      error,
+      events: eventResults(events, response.ok, eventsReceived, error),
+    });
+  } catch (error: unknown) {
+    const isTimeout = error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+    const details: MetaErrorDetails = isTimeout
+      ? {
+          category: "service_unavailable",
+          message: "Timeout ao enviar evento para a Meta",
+          timeout_ms: options.timeoutMs || META_TIMEOUT_MS,
+        }
+      : { category: "service_unavailable", message: error instanceof Error ? error.message : String(error) };
+    return observed({
+      ...base,
+      ok: false,
+      http_status: isTimeout ? 408 : 502,
+      error: details,
+      events: eventResults(events, false, undefined, details),
+    });
+  }
+}
+
+// ✅ ERROS TRANSITÓRIOS x PERMANENTES
+// Transitórios (vale tentar de novo): rate limit e instabilidade/timeout/rede.
+// Permanentes: token inválido, permissão, parâmetro inválido - repetir só gastaria cota.
+export function isTransientFailure(result: PixelDeliveryResult): boolean {
+  if (result.ok) return false;
+  if (result.error?.is_transient === true) return true;
+  const category = result.error?.category || categorize(undefined, undefined, result.http_status);
+  return category === "rate_limited" || category === "service_unavailable";
+}
+
+// Erros que só se resolvem com intervenção (novo token, permissão no Business Manager)
+export function requiresOperatorAction(result: PixelDeliveryResult): boolean {
+  return !result.ok && (result.error?.category === "invalid_token" || result.error?.category === "permission_denied");
+}
+
+// Status HTTP devolvido ao cliente quando TODOS os pixels falharam: erro de token/permissão
+// do proxy não é culpa do cliente (502, não o 400 que a Graph API usa para OAuthException)
+const CATEGORY_STATUS: Record<MetaErrorCategory, number | null> = {
+  invalid_token: 502,
+  permission_denied: 502,
+  rate_limited: 429,
+  invalid_parameter: 400,
+  service_unavailable: null, // mantém 408/5xx originais
+  unknown: null,
+};
+
+// 200 quando todos os pixels aceitaram, 207 em sucesso parcial e, se todos falharam,
+// o status correspondente à categoria do primeiro erro
+export function aggregateStatus(results: PixelDeliveryResult[]): number {
+  if (results.every((result) => result.ok)) return 200;
+  if (results.some((result) => result.ok)) return 207;
+  const first = results[0];
+  if (!first) return 502;
+  return (first.error && CATEGORY_STATUS[first.error.category]) || first.http_status || 502;
+}
+
+// Status consolidado por event_id entre todos os pixels de destino
+export type EventOutcome = "delivered" | "partially_delivered" | "failed";
+
+export function summarizeEventOutcomes(results: PixelDeliveryResult[]): Record<string, EventOutcome> {
+  const byEvent: Record<string, { delivered: number; total: number }> = {};
+  results.forEach((result) => {
+    result.events.forEach((entry) => {
+      const counts = byEvent[entry.event_id] || (byEvent[entry.event_id] = { delivered: 0, total: 0 });
+      counts.total++;
+      if (entry.status === "accepted" || entry.status === "unconfirmed") counts.delivered++;
+    });
+  });
+
+  const outcomes: Record<string, EventOutcome> = {};
+  Object.entries(byEvent).forEach(([eventId, counts]) => {
+    outcomes[eventId] =
+      counts.delivered === counts.total ? "delivered" : counts.delivered > 0 ? "partially_delivered" : "failed";
+  });
+  return outcomes;
+}
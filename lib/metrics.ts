@@ -0,0 +1,161 @@
+// ✅ MÉTRICAS (formato texto do Prometheus, servido em /api/metrics)
+// Contadores e histogramas em memória, por instância: em serverless cada instância tem os
+// próprios números desde o cold start (capi_uptime_seconds mostra quando zerou). Some por
+// instância no Prometheus; nada aqui é compartilhado via Redis para não pesar no caminho quente.
+// Rótulos só com valores de conjuntos pequenos (nome do evento validado, fonte, política,
+// código de erro da Meta); passando de MAX_SERIES_PER_METRIC séries, as novas são descartadas.
+
+import type { PixelDeliveryResult } from "./meta";
+import type { EventData } from "./types";
+
+export type EventStage = "received" | "forwarded" | "deduplicated" | "filtered";
+export type FilterReason = "validation" | "consent" | "bot";
+
+type Labels = Record<string, string>;
+
+const MAX_SERIES_PER_METRIC = 1000;
+// Segundos: a Meta costuma responder em 100-500ms; o timeout do envio é 15s
+const META_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 15];
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${labels[name].replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`)
+    .join(",");
+}
+
+class Counter {
+  private readonly series = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = labelKey(labels);
+    if (!this.series.has(key) && this.series.size >= MAX_SERIES_PER_METRIC) return;
+    this.series.set(key, (this.series.get(key) || 0) + amount);
+  }
+
+  total(filter: (key: string) => boolean = () => true): number {
+    let sum = 0;
+    this.series.forEach((value, key) => {
+      if (filter(key)) sum += value;
+    });
+    return sum;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    this.series.forEach((value, key) => lines.push(`${this.name}${key ? `{${key}}` : ""} ${value}`));
+    return lines;
+  }
+}
+
+class Histogram {
+  private readonly series = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly bounds: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      if (this.series.size >= MAX_SERIES_PER_METRIC) return;
+      entry = { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) entry.buckets[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.series.forEach((entry, key) => {
+      const prefix = key ? `${key},` : "";
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket{${prefix}le="${bound}"} ${entry.buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${entry.count}`);
+      lines.push(`${this.name}_sum${key ? `{${key}}` : ""} ${entry.sum}`);
+      lines.push(`${this.name}_count${key ? `{${key}}` : ""} ${entry.count}`);
+    });
+    return lines;
+  }
+}
+
+function gauge(name: string, help: string, value: number): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, `${name} ${value}`];
+}
+
+// ==================== REGISTRO ====================
+const startedAt = Date.now();
+
+const events = new Counter("capi_events_total", "Eventos por etapa (received/forwarded/deduplicated/filtered), fonte e nome");
+const metaLatency = new Histogram(
+  "capi_meta_request_duration_seconds",
+  "Latência das chamadas à Graph API da Meta por pixel",
+  META_LATENCY_BUCKETS
+);
+const metaErrors = new Counter("capi_meta_errors_total", "Respostas de erro da Meta por código e categoria");
+const dedupLookups = new Counter("capi_dedup_lookups_total", "Consultas ao cache de deduplicação (hit = duplicata)");
+const rateLimitRejections = new Counter("capi_rate_limit_rejections_total", "Requisições recusadas pelo rate limit por política");
+const clientIps = new Counter("capi_client_ip_total", "Requisições por versão do IP do cliente (getClientIP)");
+
+// Nome do evento já passou pela validação; o que não passou vira "invalid" (evita rótulo arbitrário)
+function eventNameLabel(event: EventData): string {
+  const name = event?.event_name;
+  return typeof name === "string" && /^[A-Za-z0-9_]{1,50}$/.test(name) ? name : "invalid";
+}
+
+export function recordEvents(stage: EventStage, source: string, list: EventData[], reason?: FilterReason): void {
+  list.forEach((event) => {
+    events.inc({ stage, source, event_name: eventNameLabel(event), ...(reason ? { reason } : {}) });
+  });
+}
+
+export function observeMetaRequest(result: PixelDeliveryResult, durationMs: number): void {
+  metaLatency.observe({ pixel: result.pixel_key }, durationMs / 1000);
+  if (!result.ok) {
+    metaErrors.inc({
+      code: String(result.error?.code ?? result.http_status),
+      category: result.error?.category || "unknown",
+    });
+  }
+}
+
+export function recordDedupLookup(duplicate: boolean): void {
+  dedupLookups.inc({ result: duplicate ? "hit" : "miss" });
+}
+
+export function recordRateLimitRejection(policy: string): void {
+  rateLimitRejections.inc({ policy });
+}
+
+export function recordClientIp(type: "IPv4" | "IPv6" | "unknown"): void {
+  clientIps.inc({ version: type.toLowerCase() });
+}
+
+export interface MetricsSnapshot {
+  dedupCacheSize?: number; // ausente quando o store não respondeu
+}
+
+export function renderMetrics(snapshot: MetricsSnapshot): string {
+  const hits = dedupLookups.total((key) => key.includes('"hit"'));
+  const lookups = dedupLookups.total();
+  const lines = [
+    ...gauge("capi_uptime_seconds", "Segundos desde o cold start desta instância", Math.floor((Date.now() - startedAt) / 1000)),
+    ...events.render(),
+    ...metaLatency.render(),
+    ...metaErrors.render(),
+    ...dedupLookups.render(),
+    ...gauge("capi_dedup_hit_ratio", "Fração das consultas ao cache de deduplicação que eram duplicatas", lookups > 0 ? hits / lookups : 0),
+    ...(snapshot.dedupCacheSize !== undefined
+      ? gauge("capi_dedup_cache_size", "Event_ids no cache de deduplicação", snapshot.dedupCacheSize)
+      : []),
+    ...rateLimitRejections.render(),
+    ...clientIps.render(),
+  ];
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,71 @@
+// 🧪 Tabela de entradas reais de geo (frontend, Hotmart, headers da Vercel/Cloudflare, banco
+// MaxMind) e o texto esperado antes do hash. Todo ct/st/zp/country hasheado passa por aqui:
+// uma mudança que quebre uma linha desta tabela muda o hash enviado à Meta.
+//   npm test
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { normalizeCity, normalizeCountry, normalizeState, normalizeZip } from "./normalize";
+
+type Case = [input: string, country: string | undefined, expected: string | null];
+
+function table(name: string, normalize: (value: string, country?: string) => string | null, cases: Case[]) {
+  describe(name, () => {
+    cases.forEach(([input, country, expected]) => {
+      it(`${JSON.stringify(input)}${country ? ` (${country})` : ""} → ${JSON.stringify(expected)}`, () => {
+        assert.equal(normalize(input, country), expected);
+      });
+    });
+  });
+}
+
+table("normalizeCity", normalizeCity, [
+  ["São Paulo", undefined, "saopaulo"],
+  ["RIO DE JANEIRO", undefined, "riodejaneiro"],
+  [" Florianópolis ", undefined, "florianopolis"],
+  ["Santa Bárbara d'Oeste", undefined, "santabarbaradoeste"],
+  ["Mogi-Guaçu", undefined, "mogiguacu"],
+  ["   ", undefined, null],
+]);
+
+table("normalizeState", normalizeState, [
+  ["SP", undefined, "sp"],
+  ["sp", undefined, "sp"],
+  ["São Paulo", undefined, "sp"],
+  ["sao paulo", undefined, "sp"],
+  ["BR-SP", undefined, "sp"],
+  ["Distrito Federal", undefined, "df"],
+  ["Rio Grande do Sul", "br", "rs"],
+  ["MG", "br", "mg"],
+  ["XX", "br", null],
+  ["California", "br", null],
+  ["CA", "us", "ca"],
+  ["US-NY", "us", "ny"],
+]);
+
+table("normalizeZip", normalizeZip, [
+  ["01310-100", undefined, "01310100"],
+  ["01310100", undefined, "01310100"],
+  ["01.310-100", undefined, "01310100"],
+  ["01310-100", "br", "01310100"],
+  ["1310-100", "br", null],
+  ["90210-1234", "us", "90210"],
+  ["9021", "us", null],
+  ["SW1A 1AA", "gb", "sw1a1aa"],
+  ["1000-001", "pt", "1000001"],
+]);
+
+table("normalizeCountry", normalizeCountry, [
+  ["BR", undefined, "br"],
+  ["br", undefined, "br"],
+  ["Brasil", undefined, "br"],
+  ["Brazil", undefined, "br"],
+  ["BRA", undefined, "br"],
+  ["EUA", undefined, "us"],
+  ["USA", undefined, "us"],
+  ["United States", undefined, "us"],
+  ["Estados Unidos", undefined, "us"],
+  ["Portugal", undefined, "pt"],
+  ["Reino Unido", undefined, "gb"],
+  ["Atlantis", undefined, null],
+]);
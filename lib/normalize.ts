@@ -0,0 +1,219 @@
+// ✅ NORMALIZAÇÃO ANTES DO HASH (regras da Meta para customer information parameters)
+// O mesmo valor precisa gerar o mesmo hash em qualquer fonte (frontend, Hotmart...),
+// então toda normalização fica centralizada aqui. Funções retornam null quando o
+// valor não pode ser normalizado com segurança (nesse caso o campo não é enviado).
+
+// "João" → "Joao" (decompõe em NFD e remove os diacríticos combinantes)
+export function stripAccents(value: string): string {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Email: trim + lowercase
+export function normalizeEmail(value: string): string | null {
+  const email = value.trim().toLowerCase();
+  return EMAIL_PATTERN.test(email) ? email : null;
+}
+
+// Telefone: somente dígitos, com código do país (E.164 sem o "+").
+// Números brasileiros sem DDI (10-11 dígitos com DDD) recebem o código padrão.
+export function normalizePhone(value: string, defaultCountryCode: string = "55"): string | null {
+  const trimmed = value.trim();
+  const hasPlus = trimmed.startsWith("+") || trimmed.startsWith("00");
+  let digits = trimmed.replace(/\D/g, "");
+
+  if (trimmed.startsWith("00")) digits = digits.slice(2);
+  if (!hasPlus) {
+    digits = digits.replace(/^0+/, ""); // prefixo de operadora/tronco: 011 → 11
+    if (digits.length === 10 || digits.length === 11) digits = `${defaultCountryCode}${digits}`;
+  }
+  // E.164: no máximo 15 dígitos; abaixo de 11 não há DDI + número completo
+  return digits.length >= 11 && digits.length <= 15 ? digits : null;
+}
+
+// Nome: lowercase, sem acentos, sem pontuação nem espaços
+export function normalizeName(value: string): string | null {
+  const name = stripAccents(value).toLowerCase().replace(/[^a-z]/g, "");
+  return name.length > 0 ? name : null;
+}
+
+// "João da Silva" → { first: "João", last: "Silva" } (último token é o sobrenome)
+export function splitFullName(fullName: string): { first?: string; last?: string } {
+  const parts = fullName.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return {};
+  if (parts.length === 1) return { first: parts[0] };
+  return { first: parts[0], last: parts[parts.length - 1] };
+}
+
+// CPF: 11 dígitos com dígitos verificadores válidos
+export function normalizeCpf(value: string): string | null {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return null;
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) sum += Number(digits[i]) * (length + 1 - i);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10]) ? digits : null;
+}
+
+// ==================== GEO (ct, st, zp, country) ====================
+// Frontend, Hotmart e geolocalização por IP passam todos por aqui antes do hash: valores
+// equivalentes ("São Paulo"/"SP", "Brasil"/"BR", "01310-100"/"01310100") viram o mesmo texto.
+// Entradas reais e o resultado esperado: tabela em lib/normalize.test.ts (npm test).
+
+// Texto só com letras minúsculas sem acento ("São Paulo" → "saopaulo")
+function compactLetters(value: string): string {
+  return stripAccents(value).toLowerCase().replace(/[^a-z]/g, "");
+}
+
+const BRAZILIAN_STATES: Record<string, string> = {
+  acre: "ac",
+  alagoas: "al",
+  amapa: "ap",
+  amazonas: "am",
+  bahia: "ba",
+  ceara: "ce",
+  distritofederal: "df",
+  espiritosanto: "es",
+  goias: "go",
+  maranhao: "ma",
+  matogrosso: "mt",
+  matogrossodosul: "ms",
+  minasgerais: "mg",
+  para: "pa",
+  paraiba: "pb",
+  parana: "pr",
+  pernambuco: "pe",
+  piaui: "pi",
+  riodejaneiro: "rj",
+  riograndedonorte: "rn",
+  riograndedosul: "rs",
+  rondonia: "ro",
+  roraima: "rr",
+  santacatarina: "sc",
+  saopaulo: "sp",
+  sergipe: "se",
+  tocantins: "to",
+};
+
+const BRAZILIAN_UFS = new Set(Object.values(BRAZILIAN_STATES));
+
+// Nomes (pt/en/es) e códigos alpha-3 dos países que aparecem no tráfego → ISO 3166-1 alpha-2
+const COUNTRY_ALIASES: Record<string, string> = {
+  brasil: "br",
+  brazil: "br",
+  bra: "br",
+  portugal: "pt",
+  prt: "pt",
+  estadosunidos: "us",
+  estadosunidosdaamerica: "us",
+  unitedstates: "us",
+  unitedstatesofamerica: "us",
+  eua: "us",
+  usa: "us",
+  canada: "ca",
+  can: "ca",
+  mexico: "mx",
+  mex: "mx",
+  argentina: "ar",
+  arg: "ar",
+  chile: "cl",
+  chl: "cl",
+  uruguai: "uy",
+  uruguay: "uy",
+  ury: "uy",
+  paraguai: "py",
+  paraguay: "py",
+  pry: "py",
+  bolivia: "bo",
+  bol: "bo",
+  peru: "pe",
+  per: "pe",
+  colombia: "co",
+  col: "co",
+  venezuela: "ve",
+  ven: "ve",
+  equador: "ec",
+  ecuador: "ec",
+  ecu: "ec",
+  angola: "ao",
+  ago: "ao",
+  mocambique: "mz",
+  mozambique: "mz",
+  moz: "mz",
+  espanha: "es",
+  spain: "es",
+  espana: "es",
+  esp: "es",
+  franca: "fr",
+  france: "fr",
+  fra: "fr",
+  alemanha: "de",
+  germany: "de",
+  deu: "de",
+  italia: "it",
+  italy: "it",
+  ita: "it",
+  reinounido: "gb",
+  unitedkingdom: "gb",
+  uk: "gb",
+  gbr: "gb",
+  irlanda: "ie",
+  ireland: "ie",
+  irl: "ie",
+  holanda: "nl",
+  paisesbaixos: "nl",
+  netherlands: "nl",
+  nld: "nl",
+  suica: "ch",
+  switzerland: "ch",
+  che: "ch",
+  japao: "jp",
+  japan: "jp",
+  jpn: "jp",
+  australia: "au",
+  aus: "au",
+};
+
+// Cidade: lowercase, sem acentos, sem espaços nem pontuação
+export function normalizeCity(value: string): string | null {
+  const city = compactLetters(value);
+  return city.length > 0 ? city : null;
+}
+
+// País: ISO 3166-1 alpha-2 em lowercase; nomes e alpha-3 conhecidos são convertidos
+export function normalizeCountry(value: string): string | null {
+  const country = compactLetters(value);
+  if (COUNTRY_ALIASES[country]) return COUNTRY_ALIASES[country];
+  return /^[a-z]{2}$/.test(country) ? country : null;
+}
+
+// Estado: código da subdivisão em lowercase; aceita ISO 3166-2 ("BR-SP") e, para o Brasil
+// (ou país desconhecido), o nome do estado. Para o Brasil, só UF válida.
+export function normalizeState(value: string, country?: string): string | null {
+  const trimmed = stripAccents(value).trim().toLowerCase();
+  const code = trimmed.replace(/^[a-z]{2}-/, "").replace(/[^a-z0-9]/g, "");
+  if (!country || country === "br") {
+    const uf = BRAZILIAN_STATES[compactLetters(trimmed)] || (BRAZILIAN_UFS.has(code) ? code : null);
+    if (uf || country === "br") return uf;
+  }
+  return code.length > 0 ? code : null;
+}
+
+// CEP: Brasil só com os 8 dígitos; EUA só os 5 primeiros dígitos; demais países em lowercase
+// sem espaços nem hífens. Sem país, formato de CEP (8 dígitos com ou sem pontuação) vira só dígitos.
+export function normalizeZip(value: string, country?: string): string | null {
+  const digits = value.replace(/\D/g, "");
+  if (country === "br" || (!country && /^[\d.\s-]+$/.test(value.trim()) && digits.length === 8)) {
+    return digits.length === 8 ? digits : null;
+  }
+  if (country === "us") {
+    return digits.length >= 5 ? digits.slice(0, 5) : null;
+  }
+  const zip = value.trim().toLowerCase().replace(/[\s.-]/g, "");
+  return zip.length > 0 ? zip : null;
+}
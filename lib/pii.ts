@@ -0,0 +1,89 @@
+// ✅ ENRIQUECIMENTO OPCIONAL COM PII HASHEADA (em, ph, fn, ln, external_id via CPF)
+// Desligado por padrão. Quando habilitado para uma fonte (PII_ENRICHMENT_SOURCES),
+// cada campo é normalizado conforme a Meta e hasheado em SHA-256 no servidor.
+// Valores brutos NUNCA são logados: só nomes de campos e contagens.
+
+import { hashSHA256 } from "./hash";
+import { normalizeCpf, normalizeEmail, normalizeName, normalizePhone, splitFullName } from "./normalize";
+
+// generic = todos os webhooks de GENERIC_WEBHOOKS
+export type PiiSource = "frontend" | "hotmart" | "kiwify" | "eduzz" | "stripe" | "generic";
+
+export interface PiiConfig {
+  sources: PiiSource[];
+  cpfAsExternalId: boolean;
+  defaultCountryCode: string;
+}
+
+export interface RawIdentity {
+  email?: unknown;
+  phone?: unknown;
+  fullName?: unknown;
+  firstName?: unknown;
+  lastName?: unknown;
+  cpf?: unknown;
+}
+
+export interface HashedPii {
+  em?: string;
+  ph?: string;
+  fn?: string;
+  ln?: string;
+  external_id?: string;
+}
+
+export interface PiiResult {
+  fields: HashedPii;
+  rejected: Array<{ field: keyof HashedPii; reason: "invalid" | "unnormalized_hash" }>;
+}
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+// Hex com cara de hash mas fora do formato aceito (maiúsculas, MD5, SHA-1, SHA-512):
+// não há como normalizar o valor original, então o campo é descartado
+const HASH_LIKE_PATTERN = /^(?:[A-Fa-f0-9]{32}|[A-Fa-f0-9]{40}|[A-Fa-f0-9]{64}|[A-Fa-f0-9]{128})$/;
+
+export function isPiiEnabled(config: PiiConfig, source: PiiSource): boolean {
+  return config.sources.includes(source);
+}
+
+function hashField(
+  field: keyof HashedPii,
+  value: unknown,
+  normalize: (value: string) => string | null,
+  result: PiiResult
+): void {
+  if (typeof value !== "string" || !value.trim()) return;
+  const trimmed = value.trim();
+
+  if (SHA256_PATTERN.test(trimmed)) {
+    result.fields[field] = trimmed; // já normalizado e hasheado na origem
+    return;
+  }
+  if (HASH_LIKE_PATTERN.test(trimmed)) {
+    result.rejected.push({ field, reason: "unnormalized_hash" });
+    return;
+  }
+
+  const normalized = normalize(trimmed);
+  if (!normalized) {
+    result.rejected.push({ field, reason: "invalid" });
+    return;
+  }
+  result.fields[field] = hashSHA256(normalized);
+}
+
+export function hashIdentity(identity: RawIdentity, config: PiiConfig): PiiResult {
+  const result: PiiResult = { fields: {}, rejected: [] };
+
+  hashField("em", identity.email, normalizeEmail, result);
+  hashField("ph", identity.phone, (value) => normalizePhone(value, config.defaultCountryCode), result);
+
+  const split = typeof identity.fullName === "string" ? splitFullName(identity.fullName) : {};
+  hashField("fn", identity.firstName || split.first, normalizeName, result);
+  hashField("ln", identity.lastName || split.last, normalizeName, result);
+
+  if (config.cpfAsExternalId) {
+    hashField("external_id", identity.cpf, normalizeCpf, result);
+  }
+  return result;
+}
@@ -0,0 +1,198 @@
+// ✅ RATE LIMIT POR TOKEN BUCKET
+// Cada chave (política + IP + origem + pixel) tem um balde com `capacity` fichas que se
+// recarrega continuamente (capacity fichas a cada windowSeconds). Picos curtos passam até
+// esgotar o balde; tráfego sustentado fica limitado à taxa de recarga.
+// Políticas separadas: navegadores (frontend), servidores da Hotmart (rajadas de retry
+// legítimas, limite bem maior), webhooks das demais plataformas e rotas administrativas.
+// Store plugável: memory (por instância) ou redis (compartilhado entre instâncias serverless).
+
+import { RedisRestClient, RedisConfig } from "./redis";
+import type { ApiResponse } from "./http";
+import { logger } from "./logger";
+import { recordRateLimitRejection } from "./metrics";
+
+export type RateLimitPolicyName = "frontend" | "hotmart" | "webhook" | "admin";
+export type RateLimitStoreKind = "memory" | "redis";
+
+export interface RateLimitPolicy {
+  name: RateLimitPolicyName;
+  capacity: number;
+  windowSeconds: number; // tempo para recarregar o balde vazio por completo
+}
+
+export interface RateLimitConfig {
+  store: RateLimitStoreKind;
+  policies: Record<RateLimitPolicyName, RateLimitPolicy>;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // até o balde voltar a ficar cheio
+  retryAfterSeconds?: number; // até haver 1 ficha (só quando bloqueado)
+}
+
+export interface BucketState {
+  allowed: boolean;
+  tokens: number;
+}
+
+export interface RateLimitStore {
+  readonly kind: RateLimitStoreKind;
+  take(key: string, policy: RateLimitPolicy, now: number): Promise<BucketState>;
+}
+
+function refillPerMs(policy: RateLimitPolicy): number {
+  return policy.capacity / (policy.windowSeconds * 1000);
+}
+
+// Origem na chave só se estiver liberada: o header é do cliente, e trocá-lo a cada
+// requisição daria um balde novo por requisição. Origens desconhecidas dividem um balde ("-").
+export function rateLimitOrigin(origin: string | undefined, allowedOrigins: string[]): string {
+  return origin && allowedOrigins.includes(origin) ? origin : "-";
+}
+
+// Chave só com caracteres seguros
+export function rateLimitKey(policy: RateLimitPolicyName, parts: Array<string | undefined>): string {
+  return [policy, ...parts.map((part) => (part || "-").replace(/[^A-Za-z0-9._:-]/g, "_").slice(0, 128))].join("|");
+}
+
+// ==================== MEMÓRIA ====================
+// Map em ordem de uso (delete + set a cada acesso): ao passar de maxKeys sai o balde
+// usado há mais tempo - que, parado, já estaria cheio de novo de qualquer forma.
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly kind: RateLimitStoreKind = "memory";
+  private readonly buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  constructor(private readonly maxKeys: number = 10000) {}
+
+  async take(key: string, policy: RateLimitPolicy, now: number): Promise<BucketState> {
+    const bucket = this.buckets.get(key);
+    const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+    let tokens = bucket ? Math.min(policy.capacity, bucket.tokens + elapsed * refillPerMs(policy)) : policy.capacity;
+
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+
+    this.buckets.delete(key);
+    this.buckets.set(key, { tokens, updatedAt: now });
+    if (this.buckets.size > this.maxKeys) {
+      const oldest = this.buckets.keys().next();
+      if (!oldest.done) this.buckets.delete(oldest.value);
+    }
+    return { allowed, tokens };
+  }
+}
+
+// ==================== REDIS ====================
+// Leitura + recarga + consumo em um único script Lua (atômico entre instâncias).
+// As fichas voltam como string: o Redis truncaria o número Lua para inteiro.
+const TOKEN_BUCKET_SCRIPT = `
+local state = redis.call("HMGET", KEYS[1], "tokens", "ts")
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "ts", tostring(now))
+redis.call("PEXPIRE", KEYS[1], ARGV[4])
+return { allowed, tostring(tokens) }
+`;
+
+const REDIS_KEY_PREFIX = "capi:ratelimit:";
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly kind: RateLimitStoreKind = "redis";
+
+  constructor(private readonly client: RedisRestClient) {}
+
+  async take(key: string, policy: RateLimitPolicy, now: number): Promise<BucketState> {
+    const [allowed, tokens] = await this.client.command<[number, string]>([
+      "EVAL",
+      TOKEN_BUCKET_SCRIPT,
+      1,
+      `${REDIS_KEY_PREFIX}${key}`,
+      policy.capacity,
+      refillPerMs(policy),
+      now,
+      policy.windowSeconds * 1000,
+    ]);
+    return { allowed: allowed === 1, tokens: Number(tokens) };
+  }
+}
+
+// ==================== DECISÃO + HEADERS ====================
+export async function checkRateLimit(
+  store: RateLimitStore,
+  policy: RateLimitPolicy,
+  key: string
+): Promise<RateLimitDecision> {
+  const now = Date.now();
+  let state: BucketState;
+  try {
+    state = await store.take(key, policy, now);
+  } catch (error: unknown) {
+    // Fail-open: store fora do ar não pode derrubar a coleta de eventos
+    logger.error("Falha no store de rate limit - requisição liberada", { store: store.kind, policy: policy.name, error });
+    return { allowed: true, limit: policy.capacity, remaining: policy.capacity, resetSeconds: 0 };
+  }
+
+  const rate = refillPerMs(policy);
+  return {
+    allowed: state.allowed,
+    limit: policy.capacity,
+    remaining: Math.max(0, Math.floor(state.tokens)),
+    resetSeconds: Math.ceil((policy.capacity - state.tokens) / rate / 1000),
+    retryAfterSeconds: state.allowed ? undefined : Math.max(1, Math.ceil((1 - state.tokens) / rate / 1000)),
+  };
+}
+
+// Headers do draft IETF "RateLimit header fields for HTTP" + Retry-After no 429
+export function applyRateLimitHeaders(res: ApiResponse, policy: RateLimitPolicy, decision: RateLimitDecision): void {
+  res.setHeader("RateLimit-Policy", `${policy.capacity};w=${policy.windowSeconds}`);
+  res.setHeader("RateLimit-Limit", String(decision.limit));
+  res.setHeader("RateLimit-Remaining", String(decision.remaining));
+  res.setHeader("RateLimit-Reset", String(decision.resetSeconds));
+  if (decision.retryAfterSeconds !== undefined) {
+    res.setHeader("Retry-After", String(decision.retryAfterSeconds));
+  }
+}
+
+// ==================== FACTORY ====================
+let rateLimitStore: RateLimitStore | null = null;
+
+export function getRateLimitStore(config: RateLimitConfig, redis: RedisConfig | null): RateLimitStore {
+  if (!rateLimitStore || rateLimitStore.kind !== config.store) {
+    rateLimitStore =
+      config.store === "redis" ? new RedisRateLimitStore(new RedisRestClient(redis)) : new MemoryRateLimitStore();
+  }
+  return rateLimitStore;
+}
+
+// Aplica a política e escreve os headers; decision.allowed=false → responder 429
+export async function enforceRateLimit(
+  res: ApiResponse,
+  config: RateLimitConfig,
+  redis: RedisConfig | null,
+  policyName: RateLimitPolicyName,
+  keyParts: Array<string | undefined>
+): Promise<RateLimitDecision> {
+  const policy = config.policies[policyName];
+  const decision = await checkRateLimit(getRateLimitStore(config, redis), policy, rateLimitKey(policyName, keyParts));
+  applyRateLimitHeaders(res, policy, decision);
+  if (!decision.allowed) {
+    recordRateLimitRejection(policyName);
+    logger.warn("Limite de requisições excedido", {
+      policy: policyName,
+      retry_after_seconds: decision.retryAfterSeconds,
+    });
+  }
+  return decision;
+}
@@ -0,0 +1,50 @@
+// ✅ CLIENTE REDIS VIA REST (protocolo Upstash / Vercel KV)
+// Usa apenas fetch, sem conexão TCP persistente: funciona em funções serverless
+// e não adiciona dependências. Cada comando é um array ["SET", "chave", ...].
+
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedisError";
+  }
+}
+
+export interface RedisConfig {
+  url: string;
+  token: string;
+}
+
+const REDIS_TIMEOUT_MS = 3000;
+
+export class RedisRestClient {
+  private readonly url: string;
+  private readonly token: string;
+
+  constructor(config: RedisConfig) {
+    this.url = config.url.replace(/\/$/, "");
+    this.token = config.token;
+  }
+
+  async command<T = unknown>(args: Array<string | number>): Promise<T> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args.map(String)),
+      signal: AbortSignal.timeout(REDIS_TIMEOUT_MS),
+    });
+
+    let data: { result?: T; error?: string } = {};
+    try {
+      data = (await response.json()) as { result?: T; error?: string };
+    } catch {
+      throw new RedisError(`Resposta inválida do Redis (HTTP ${response.status})`);
+    }
+    if (!response.ok || data.error) {
+      throw new RedisError(data.error || `Redis respondeu HTTP ${response.status}`);
+    }
+    return data.result as T;
+  }
+}
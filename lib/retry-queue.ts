@@ -0,0 +1,356 @@
+// ✅ FILA DE RETRY PARA ENTREGAS QUE FALHARAM NA META
+// Lotes com falha transitória (timeout, 429, 5xx, limites da Graph API) são gravados
+// e reenviados com backoff exponencial + jitter pela rota /api/cron/retry-queue
+// (Vercel Cron ou qualquer agendador externo).
+// Cada job guarda UM pixel: no fan-out, só o pixel que falhou é reenviado.
+// Stores (RETRY_QUEUE_STORE):
+// - redis: hash de jobs + sorted set por vencimento, compartilhado entre instâncias serverless
+//   (na Vercel a drenagem roda em outra instância que a entrega: só o redis funciona lá)
+// - file:  arquivo JSON local, só para self-hosting com um único processo
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { logger } from "./logger";
+import { RedisConfig, RedisRestClient } from "./redis";
+import type { EventData } from "./types";
+
+export type RetryQueueStoreKind = "file" | "redis";
+
+export interface RetryConfig {
+  enabled: boolean;
+  store: RetryQueueStoreKind;
+  filePath: string;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxJobs: number;
+}
+
+export interface RetryJob {
+  id: string;
+  pixel_key: string;
+  events: EventData[];
+  attempts: number; // tentativas já realizadas (a entrega original conta como 1)
+  created_at: number;
+  next_attempt_at: number;
+  last_error?: unknown;
+  // Eventos cujo registro de deduplicação foi liberado após a falha: precisam ser
+  // registrados de novo antes do reenvio (se outro caminho já entregou, são descartados)
+  reclaim_event_ids: string[];
+  // Lote enviado em modo de teste: o reenvio precisa manter o mesmo test_event_code
+  test_event_code?: string;
+  // Job em envio por uma drenagem até este instante (ms); se ela morrer, o job volta sozinho
+  leased_until?: number;
+}
+
+export interface RetryJobInput {
+  pixel_key: string;
+  events: EventData[];
+  reclaim_event_ids: string[];
+  last_error?: unknown;
+  test_event_code?: string;
+}
+
+export type RetryOutcome =
+  | { status: "delivered" }
+  | { status: "retry"; error?: unknown }
+  | { status: "drop"; reason: string };
+
+export interface DrainOptions {
+  deadline: number; // ms: nenhum job novo começa depois de deadline - jobTimeoutMs
+  jobTimeoutMs: number; // tempo máximo de um envio (timeout da Meta)
+}
+
+export interface DrainSummary {
+  processed: number;
+  delivered: number;
+  rescheduled: number;
+  dropped: number;
+  remaining: number;
+}
+
+// Backoff exponencial com "equal jitter": metade fixa + metade aleatória,
+// evitando que vários jobs criados no mesmo pico voltem todos no mesmo instante
+export function computeBackoff(attempts: number, baseDelayMs: number, maxDelayMs: number, random: () => number = Math.random): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, Math.max(0, attempts - 1)));
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+// Maior que a duração máxima da rota de drenagem: um lease nunca expira com o envio ainda em curso
+const LEASE_MS = 2 * 60 * 1000;
+
+// ==================== DRENAGEM (COMUM AOS STORES) ====================
+// Cada store só implementa gravar, reservar (lease) e liquidar um job; o ciclo é o mesmo.
+export abstract class RetryQueue {
+  abstract readonly kind: RetryQueueStoreKind;
+
+  constructor(protected readonly config: RetryConfig) {}
+
+  // null = fila cheia (lote descartado)
+  abstract enqueue(input: RetryJobInput): Promise<RetryJob | null>;
+
+  abstract size(): Promise<number>;
+
+  // Reserva o próximo job vencido antes de dueBefore (início da drenagem) com um lease em vez de
+  // tirá-lo da fila: outra drenagem concorrente não pega o mesmo job e, se a função morrer no
+  // meio (timeout, crash), o job volta a ficar disponível quando o lease expira.
+  // O reagendado durante a drenagem não volta na mesma execução.
+  protected abstract claimNext(dueBefore: number, leaseUntil: number): Promise<RetryJob | null>;
+
+  // Resultado conhecido: o job sai da fila (entregue/descartado) ou volta reagendado sem lease
+  protected abstract settle(jobId: string, rescheduled: RetryJob | null): Promise<void>;
+
+  protected newJob(input: RetryJobInput): RetryJob {
+    const now = Date.now();
+    return {
+      id: `retry_${now}_${Math.random().toString(36).slice(2, 10)}`,
+      pixel_key: input.pixel_key,
+      events: input.events,
+      attempts: 1,
+      created_at: now,
+      next_attempt_at: now + computeBackoff(1, this.config.baseDelayMs, this.config.maxDelayMs),
+      last_error: input.last_error,
+      reclaim_event_ids: input.reclaim_event_ids,
+      ...(input.test_event_code ? { test_event_code: input.test_event_code } : {}),
+    };
+  }
+
+  protected logQueueFull(input: RetryJobInput, queuedJobs: number): void {
+    logger.error("Fila de retry cheia - lote descartado", {
+      store: this.kind,
+      queued_jobs: queuedJobs,
+      max_jobs: this.config.maxJobs,
+      pixel: input.pixel_key,
+      events: input.events.length,
+    });
+  }
+
+  // Um job por vez até faltar tempo para mais um envio completo antes do deadline.
+  // Entrega é "ao menos uma vez": morrer entre o aceite da Meta e o settle reenvia o lote,
+  // que a Meta deduplica pelo event_id.
+  async drain(deliver: (job: RetryJob) => Promise<RetryOutcome>, options: DrainOptions): Promise<DrainSummary> {
+    const startedAt = Date.now();
+    const summary: DrainSummary = { processed: 0, delivered: 0, rescheduled: 0, dropped: 0, remaining: 0 };
+
+    while (Date.now() + options.jobTimeoutMs <= options.deadline) {
+      const job = await this.claimNext(startedAt, Date.now() + LEASE_MS);
+      if (!job) break;
+      summary.processed++;
+
+      let outcome: RetryOutcome;
+      try {
+        outcome = await deliver(job);
+      } catch (error: unknown) {
+        outcome = { status: "retry", error: { message: error instanceof Error ? error.message : String(error) } };
+      }
+
+      if (outcome.status === "delivered") {
+        summary.delivered++;
+        await this.settle(job.id, null);
+        continue;
+      }
+      if (outcome.status === "drop") {
+        summary.dropped++;
+        logger.error("Job de retry descartado", { job: job.id, pixel: job.pixel_key, reason: outcome.reason });
+        await this.settle(job.id, null);
+        continue;
+      }
+
+      const attempts = job.attempts + 1;
+      if (attempts >= this.config.maxAttempts) {
+        summary.dropped++;
+        logger.error("Job de retry esgotou as tentativas", {
+          job: job.id,
+          pixel: job.pixel_key,
+          attempts,
+          last_error: outcome.error,
+        });
+        await this.settle(job.id, null);
+        continue;
+      }
+      summary.rescheduled++;
+      await this.settle(job.id, {
+        ...job,
+        leased_until: undefined,
+        attempts,
+        last_error: outcome.error,
+        next_attempt_at: Date.now() + computeBackoff(attempts, this.config.baseDelayMs, this.config.maxDelayMs),
+      });
+    }
+
+    summary.remaining = await this.size();
+    return summary;
+  }
+}
+
+// ==================== ARQUIVO (SELF-HOSTING) ====================
+export class FileRetryQueue extends RetryQueue {
+  readonly kind: RetryQueueStoreKind = "file";
+  private lock: Promise<unknown> = Promise.resolve();
+
+  // Serializa leitura+escrita do arquivo dentro do processo
+  private withLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(task, task);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<RetryJob[]> {
+    try {
+      const content = await fs.readFile(this.config.filePath, "utf8");
+      const jobs = JSON.parse(content);
+      return Array.isArray(jobs) ? jobs : [];
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      logger.error("Fila de retry ilegível - iniciando vazia", { file: this.config.filePath, error });
+      return [];
+    }
+  }
+
+  private async save(jobs: RetryJob[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.config.filePath), { recursive: true });
+    const tmpPath = `${this.config.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(jobs));
+    await fs.rename(tmpPath, this.config.filePath);
+  }
+
+  async enqueue(input: RetryJobInput): Promise<RetryJob | null> {
+    return this.withLock(async () => {
+      const jobs = await this.load();
+      if (jobs.length >= this.config.maxJobs) {
+        this.logQueueFull(input, jobs.length);
+        return null;
+      }
+      const job = this.newJob(input);
+      jobs.push(job);
+      await this.save(jobs);
+      return job;
+    });
+  }
+
+  async size(): Promise<number> {
+    return this.withLock(async () => (await this.load()).length);
+  }
+
+  protected claimNext(dueBefore: number, leaseUntil: number): Promise<RetryJob | null> {
+    return this.withLock(async () => {
+      const now = Date.now();
+      const jobs = await this.load();
+      const job = jobs
+        .filter((entry) => entry.next_attempt_at < dueBefore && (!entry.leased_until || entry.leased_until <= now))
+        .sort((a, b) => a.next_attempt_at - b.next_attempt_at)[0];
+      if (!job) return null;
+      job.leased_until = leaseUntil;
+      await this.save(jobs);
+      return { ...job };
+    });
+  }
+
+  protected settle(jobId: string, rescheduled: RetryJob | null): Promise<void> {
+    return this.withLock(async () => {
+      const jobs = (await this.load()).filter((job) => job.id !== jobId);
+      await this.save(rescheduled ? jobs.concat(rescheduled) : jobs);
+    });
+  }
+}
+
+// ==================== REDIS ====================
+// Jobs em um hash (id → JSON) e um sorted set cujo score é o instante em que o job pode ser
+// reservado: next_attempt_at, ou o fim do lease enquanto está em envio. Cada operação é um
+// script Lua (atômico entre instâncias), como no rate limit.
+const REDIS_JOBS_KEY = "capi:retry:jobs";
+const REDIS_DUE_KEY = "capi:retry:due";
+
+const ENQUEUE_SCRIPT = `
+local queued = redis.call("HLEN", KEYS[1])
+if queued >= tonumber(ARGV[4]) then return { 0, queued } end
+redis.call("HSET", KEYS[1], ARGV[1], ARGV[2])
+redis.call("ZADD", KEYS[2], ARGV[3], ARGV[1])
+return { 1, queued + 1 }
+`;
+
+const CLAIM_SCRIPT = `
+local ids = redis.call("ZRANGEBYSCORE", KEYS[2], "-inf", "(" .. ARGV[1], "LIMIT", 0, 1)
+if #ids == 0 then return false end
+local job = redis.call("HGET", KEYS[1], ids[1])
+if not job then
+  redis.call("ZREM", KEYS[2], ids[1])
+  return false
+end
+redis.call("ZADD", KEYS[2], ARGV[2], ids[1])
+return job
+`;
+
+const SETTLE_SCRIPT = `
+if ARGV[2] == "" then
+  redis.call("HDEL", KEYS[1], ARGV[1])
+  redis.call("ZREM", KEYS[2], ARGV[1])
+else
+  redis.call("HSET", KEYS[1], ARGV[1], ARGV[2])
+  redis.call("ZADD", KEYS[2], ARGV[3], ARGV[1])
+end
+return 1
+`;
+
+export class RedisRetryQueue extends RetryQueue {
+  readonly kind: RetryQueueStoreKind = "redis";
+
+  constructor(config: RetryConfig, private readonly client: RedisRestClient) {
+    super(config);
+  }
+
+  private script<T>(script: string, args: Array<string | number>): Promise<T> {
+    return this.client.command<T>(["EVAL", script, 2, REDIS_JOBS_KEY, REDIS_DUE_KEY, ...args]);
+  }
+
+  async enqueue(input: RetryJobInput): Promise<RetryJob | null> {
+    const job = this.newJob(input);
+    const [added, queued] = await this.script<[number, number]>(ENQUEUE_SCRIPT, [
+      job.id,
+      JSON.stringify(job),
+      job.next_attempt_at,
+      this.config.maxJobs,
+    ]);
+    if (!added) {
+      this.logQueueFull(input, queued);
+      return null;
+    }
+    return job;
+  }
+
+  async size(): Promise<number> {
+    return Number(await this.client.command<number>(["HLEN", REDIS_JOBS_KEY]));
+  }
+
+  protected async claimNext(dueBefore: number, leaseUntil: number): Promise<RetryJob | null> {
+    const json = await this.script<string | null>(CLAIM_SCRIPT, [dueBefore, leaseUntil]);
+    if (!json) return null;
+    try {
+      return { ...(JSON.parse(json) as RetryJob), leased_until: leaseUntil };
+    } catch (error: unknown) {
+      // Job ilegível fica reservado até o lease expirar; não trava a drenagem dos demais
+      logger.error("Job de retry ilegível no Redis", { error });
+      return null;
+    }
+  }
+
+  protected async settle(jobId: string, rescheduled: RetryJob | null): Promise<void> {
+    await this.script(SETTLE_SCRIPT, [
+      jobId,
+      rescheduled ? JSON.stringify(rescheduled) : "",
+      rescheduled ? rescheduled.next_attempt_at : 0,
+    ]);
+  }
+}
+
+// Uma instância por processo (o lock em memória do store file precisa ser compartilhado)
+let retryQueue: RetryQueue | null = null;
+
+export function getRetryQueue(config: RetryConfig, redis: RedisConfig | null): RetryQueue | null {
+  if (!config.enabled) return null;
+  if (!retryQueue || retryQueue.kind !== config.store) {
+    retryQueue =
+      config.store === "redis" ? new RedisRetryQueue(config, new RedisRestClient(redis)) : new FileRetryQueue(config);
+  }
+  return retryQueue;
+}
@@ -0,0 +1,85 @@
+// ✅ ROTEAMENTO MULTI-PIXEL
+// Cada evento é comparado com as regras de PIXEL_ROUTES. Dentro de um campo os valores
+// são alternativos (OU); entre campos diferentes todos precisam casar (E).
+// O evento vai para a UNIÃO dos pixels de todas as regras que casarem (fan-out);
+// sem nenhuma regra casando, segue para o pixel padrão (META_PIXEL_ID).
+
+import { CapiConfig, DEFAULT_PIXEL_KEY, PixelRoute, PixelTarget } from "./config";
+import type { EventData } from "./types";
+
+export interface RoutingContext {
+  origin?: string;
+  source?: string; // sem fonte = frontend
+  productId?: string | number;
+  hotmartProductId?: string | number;
+}
+
+export interface PixelBatch {
+  target: PixelTarget;
+  events: EventData[];
+}
+
+function hostOf(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+// "*.exemplo.com" casa com qualquer subdomínio de exemplo.com (mas não com o próprio domínio)
+function hostMatches(host: string | undefined, patterns: string[]): boolean {
+  if (!host) return false;
+  return patterns.some((pattern) => {
+    const normalized = pattern.toLowerCase();
+    if (normalized.startsWith("*.")) return host.endsWith(normalized.slice(1));
+    return host === normalized;
+  });
+}
+
+function routeMatches(route: PixelRoute, event: EventData, context: RoutingContext): boolean {
+  const { origin, host, event_name, hotmart_product_id, source, product_id } = route.match;
+
+  if (origin) {
+    const requestOrigin = (context.origin || "").replace(/\/$/, "");
+    if (!origin.some((allowed) => allowed.replace(/\/$/, "") === requestOrigin)) return false;
+  }
+  if (host && !hostMatches(hostOf(event.event_source_url), host)) return false;
+  if (event_name && !event_name.includes(event.event_name || "")) return false;
+  if (hotmart_product_id) {
+    if (context.hotmartProductId === undefined) return false;
+    if (!hotmart_product_id.includes(String(context.hotmartProductId))) return false;
+  }
+  if (source && !source.includes(context.source || "frontend")) return false;
+  if (product_id) {
+    if (context.productId === undefined) return false;
+    if (!product_id.includes(String(context.productId))) return false;
+  }
+  return true;
+}
+
+export function resolvePixels(event: EventData, context: RoutingContext, config: CapiConfig): PixelTarget[] {
+  const keys: string[] = [];
+  config.routes.forEach((route) => {
+    if (!routeMatches(route, event, context)) return;
+    route.pixels.forEach((key) => {
+      if (!keys.includes(key)) keys.push(key);
+    });
+  });
+
+  if (keys.length === 0) keys.push(DEFAULT_PIXEL_KEY);
+  return keys.map((key) => config.meta.pixels[key]).filter(Boolean);
+}
+
+// Agrupa os eventos por pixel de destino preservando a ordem de chegada
+export function groupEventsByPixel(events: EventData[], context: RoutingContext, config: CapiConfig): PixelBatch[] {
+  const batches = new Map<string, PixelBatch>();
+  events.forEach((event) => {
+    resolvePixels(event, context, config).forEach((target) => {
+      if (!batches.has(target.key)) batches.set(target.key, { target, events: [] });
+      batches.get(target.key)!.events.push(event);
+    });
+  });
+  return Array.from(batches.values());
+}
@@ -0,0 +1,111 @@
+// ✅ ADAPTADORES DE FONTE (plataformas de venda → EventData)
+// Cada plataforma (Hotmart, Kiwify, Eduzz, Stripe, webhooks genéricos) é um adaptador que
+// cuida só do que muda entre elas: reconhecer o formato, verificar a assinatura, mapear o
+// evento da plataforma para um evento Meta e transformar o corpo em EventData.
+// O resto (PII, visitante do checkout, deduplicação, roteamento, dry-run, entrega) é o mesmo
+// pipeline para todas - ver lib/sources/webhook.ts.
+
+import * as crypto from "crypto";
+import type { CapiConfig } from "../config";
+import type { PiiSource, RawIdentity } from "../pii";
+import type { RoutingContext } from "../routing";
+import type { EventData } from "../types";
+
+// ==================== MAPEAMENTO DE EVENTOS ====================
+// Cada evento da plataforma vira um evento padrão Meta, um evento customizado ou nada.
+export type EventAction =
+  | { type: "meta"; event_name: string; action_source?: string }
+  | { type: "custom"; event_name: string; action_source?: string }
+  | { type: "none" };
+
+export type EventActions = Record<string, EventAction>;
+
+export function resolveEventAction(key: string, defaults: EventActions, overrides: EventActions = {}): EventAction {
+  return overrides[key] || defaults[key] || { type: "none" };
+}
+
+// ==================== CONTRATO ====================
+export interface WebhookRequest {
+  headers: Record<string, string | string[] | undefined>;
+  query?: Record<string, string | string[] | undefined>;
+  rawBody: Buffer;
+}
+
+export interface SourceAuthResult {
+  ok: boolean;
+  method?: string;
+  reason?: string; // "not_configured" = nenhum segredo configurado para a fonte
+}
+
+export interface SourceEvent {
+  key: string; // evento da plataforma usado no mapeamento (ex: PURCHASE_APPROVED, order_approved)
+  action: EventAction;
+  event: EventData | null; // null quando a ação é "none"
+  eventIdSource?: string;
+  reference?: string; // transação/pedido, só para logs
+  identity: RawIdentity; // comprador, para o enriquecimento opt-in de PII
+  checkoutVisitor?: string; // parâmetro de checkout que pode levar o token do visitante (vid_<token>)
+  routing: RoutingContext;
+}
+
+export interface SourceAdapter<TBody = unknown> {
+  readonly name: string; // segmento da rota /api/webhooks/<name> e prefixo do event_id
+  readonly label: string; // nome legível para logs
+  readonly secretEnv: string; // variável que precisa estar configurada para aceitar webhooks
+  readonly piiSource: PiiSource;
+  detect(body: unknown): body is TBody;
+  verify(request: WebhookRequest, config: CapiConfig): SourceAuthResult;
+  transform(body: TBody, config: CapiConfig): SourceEvent;
+}
+
+// ==================== UTILITÁRIOS COMPARTILHADOS ====================
+export function slugify(value: string): string {
+  return value
+    .replace(/([a-z])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .toLowerCase();
+}
+
+// Purchase usa <fonte>_<pedido> (retries do webhook caem na deduplicação); os demais eventos
+// do ciclo de vida ganham o nome do evento para não colidir com o Purchase do mesmo pedido
+export function sourceEventId(source: string, reference: string, eventName: string): string {
+  const base = `${source}_${reference}`;
+  return eventName === "Purchase" ? base : `${base}_${slugify(eventName)}`;
+}
+
+export function hmacHex(algorithm: "sha1" | "sha256", secret: string, payload: Buffer | string): string {
+  return crypto.createHmac(algorithm, secret).update(payload).digest("hex");
+}
+
+// Segundos, milissegundos, ISO 8601 ou "YYYY-MM-DD HH:mm:ss" (UTC) → segundos; inválido = agora.
+// Nunca no futuro: a Meta recusa event_time adiantado (fuso do checkout lido como UTC, relógio torto)
+export function toEventTime(value: unknown, now: number = Date.now()): number {
+  const nowSeconds = Math.floor(now / 1000);
+  if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+    return Math.min(Math.floor(value > 1e12 ? value / 1000 : value), nowSeconds);
+  }
+  if (typeof value === "string" && value.trim()) {
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) return toEventTime(Number(trimmed), now);
+    const iso = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(trimmed) ? `${trimmed.replace(" ", "T")}Z` : trimmed;
+    const parsed = Date.parse(iso);
+    if (!Number.isNaN(parsed)) return Math.min(Math.floor(parsed / 1000), nowSeconds);
+  }
+  return nowSeconds;
+}
+
+// "97.00", "97,00", 9700 com divisor 100 → 97
+export function toAmount(value: unknown, divisor: number = 1): number | undefined {
+  const parsed = typeof value === "string" ? Number(value.trim().replace(",", ".")) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed)) return undefined;
+  return Math.round((parsed / divisor) * 100) / 100;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function textValue(value: unknown): string | undefined {
+  if (typeof value === "number") return String(value);
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
@@ -0,0 +1,153 @@
+// ✅ FONTE EDUZZ (webhooks do Developer Hub, eventos myeduzz.*)
+// A Eduzz assina o corpo bruto com HMAC-SHA256 usando o segredo do webhook e manda o hex no
+// header X-Signature. A fatura (invoice) traz comprador, itens e valores em reais.
+// O token do visitante vai no tracker do link de checkout (?trk=vid_<token>), que volta em tracker.code1.
+
+import type { CapiConfig } from "../config";
+import { safeEqualAny } from "../hash";
+import { headerValue } from "../http";
+import { hashGeoFields } from "../geo";
+import type { PiiSource } from "../pii";
+import {
+  EventActions,
+  SourceAdapter,
+  SourceAuthResult,
+  SourceEvent,
+  WebhookRequest,
+  hmacHex,
+  isRecord,
+  resolveEventAction,
+  sourceEventId,
+  textValue,
+  toAmount,
+  toEventTime,
+} from "./adapter";
+
+export interface EduzzConfig {
+  secrets: string[];
+  actions: EventActions;
+}
+
+interface EduzzMoney {
+  value?: number | string;
+  currency?: string;
+}
+
+export interface EduzzInvoice {
+  id: string | number;
+  status?: string;
+  createdAt?: string;
+  paidAt?: string;
+  price?: EduzzMoney;
+  paid?: EduzzMoney;
+  buyer?: {
+    name?: string;
+    email?: string;
+    document?: string;
+    phone?: string;
+    cellphone?: string;
+    address?: { city?: string; state?: string; zipCode?: string; country?: string };
+  };
+  items?: Array<{ productId?: string | number; name?: string; price?: EduzzMoney }>;
+  tracker?: { code1?: string; code2?: string; code3?: string };
+  paymentMethod?: string;
+}
+
+export interface EduzzWebhookPayload {
+  id: string;
+  event: string; // myeduzz.invoice_paid, myeduzz.invoice_refunded...
+  sentDate?: string;
+  data: EduzzInvoice;
+}
+
+export const DEFAULT_EDUZZ_EVENT_ACTIONS: EventActions = {
+  "myeduzz.invoice_paid": { type: "meta", event_name: "Purchase" },
+  // Fatura aberta = boleto/pix gerado: intenção de compra, ainda sem receita
+  "myeduzz.invoice_opened": { type: "meta", event_name: "InitiateCheckout" },
+  "myeduzz.invoice_refunded": { type: "custom", event_name: "PurchaseRefunded", action_source: "system_generated" },
+  "myeduzz.invoice_canceled": { type: "custom", event_name: "PurchaseCanceled", action_source: "system_generated" },
+};
+
+export class EduzzSourceAdapter implements SourceAdapter<EduzzWebhookPayload> {
+  readonly name = "eduzz";
+  readonly label = "Eduzz";
+  readonly secretEnv = "EDUZZ_WEBHOOK_SECRET";
+  readonly piiSource: PiiSource = "eduzz";
+
+  detect(body: unknown): body is EduzzWebhookPayload {
+    return (
+      isRecord(body) &&
+      typeof body.event === "string" &&
+      body.event.startsWith("myeduzz.") &&
+      isRecord(body.data) &&
+      (typeof body.data.id === "string" || typeof body.data.id === "number")
+    );
+  }
+
+  verify(request: WebhookRequest, config: CapiConfig): SourceAuthResult {
+    const { secrets } = config.sources.eduzz;
+    if (secrets.length === 0) return { ok: false, reason: "not_configured" };
+
+    const signature = headerValue(request.headers["x-signature"])?.trim().toLowerCase();
+    if (!signature) return { ok: false, reason: "missing_signature" };
+
+    const expected = secrets.map((secret) => hmacHex("sha256", secret, request.rawBody));
+    return safeEqualAny(signature, expected) ? { ok: true, method: "hmac-sha256" } : { ok: false, reason: "invalid_signature" };
+  }
+
+  transform(payload: EduzzWebhookPayload, config: CapiConfig): SourceEvent {
+    const key = payload.event;
+    const action = resolveEventAction(key, DEFAULT_EDUZZ_EVENT_ACTIONS, config.sources.eduzz.actions);
+    const invoice = payload.data;
+    const invoiceId = String(invoice.id);
+    const buyer = invoice.buyer || {};
+    const product = invoice.items?.[0];
+    const base = {
+      key,
+      action,
+      reference: invoiceId,
+      identity: { email: buyer.email, phone: buyer.cellphone || buyer.phone, fullName: buyer.name, cpf: buyer.document },
+      checkoutVisitor: invoice.tracker?.code1,
+      routing: { source: this.name, productId: product?.productId },
+    };
+    if (action.type === "none") return { ...base, event: null };
+
+    const customData: Record<string, unknown> = {
+      content_type: "product",
+      order_id: invoiceId,
+      eduzz_event: key,
+    };
+    if (product?.name) customData.content_name = product.name;
+    const contentIds = (invoice.items || []).map((item) => textValue(item.productId)).filter(Boolean);
+    if (contentIds.length > 0) customData.content_ids = contentIds;
+    const money = invoice.paid?.value !== undefined ? invoice.paid : invoice.price;
+    const value = toAmount(money?.value);
+    if (value !== undefined) {
+      customData.value = value;
+      customData.currency = textValue(money.currency)?.toUpperCase() || "BRL";
+    }
+    if (invoice.paymentMethod) customData.payment_type = invoice.paymentMethod;
+
+    return {
+      ...base,
+      event: {
+        event_name: action.event_name,
+        event_time: toEventTime(invoice.paidAt || invoice.createdAt || payload.sentDate),
+        action_source: action.action_source || "website",
+        user_data: {
+          ...hashGeoFields({
+            ct: buyer.address?.city,
+            st: buyer.address?.state,
+            zp: buyer.address?.zipCode,
+            country: buyer.address?.country,
+          }).fields,
+        },
+        custom_data: customData,
+        event_source_url: "https://sun.eduzz.com",
+        // ✅ DETERMINÍSTICO: retries do mesmo webhook geram o mesmo event_id
+        event_id: sourceEventId(this.name, invoiceId, action.event_name),
+      },
+      eventIdSource: "invoice",
+    };
+  }
+}
@@ -0,0 +1,170 @@
+// ✅ FONTE GENÉRICA CONFIGURADA POR JSON PATH (GENERIC_WEBHOOKS)
+// Para plataformas sem adaptador próprio: cada entrada de GENERIC_WEBHOOKS vira a rota
+// /api/webhooks/<nome> e diz onde estão os campos no corpo ("$.data.buyer.email"), como a
+// requisição é autenticada e qual evento Meta cada tipo de evento da plataforma gera.
+//   {"minha_loja": {
+//     "auth": {"header": "x-signature", "algorithm": "sha256", "secrets": ["..."]},
+//     "event_type": "$.event",
+//     "events": {"sale.paid": {"type": "meta", "event_name": "Purchase"}},
+//     "fields": {"order_id": "$.data.id", "value": "$.data.amount", "currency": "$.data.currency",
+//                "email": "$.data.customer.email", "visitor": "$.data.tracking.sck"},
+//     "value_divisor": 100}}
+// auth.algorithm: sha256/sha1 = HMAC hex do corpo bruto no header (aceita prefixo "sha256=");
+// token = o header traz um dos segredos em texto puro. Sem auth a fonte não é aceita.
+
+import type { CapiConfig } from "../config";
+import { safeEqualAny } from "../hash";
+import { headerValue } from "../http";
+import { hashGeoFields } from "../geo";
+import type { PiiSource } from "../pii";
+import {
+  EventActions,
+  SourceAdapter,
+  SourceAuthResult,
+  SourceEvent,
+  WebhookRequest,
+  hmacHex,
+  resolveEventAction,
+  sourceEventId,
+  textValue,
+  toAmount,
+  toEventTime,
+} from "./adapter";
+
+export type GenericAuthAlgorithm = "sha256" | "sha1" | "token";
+
+export const GENERIC_FIELDS = [
+  "order_id",
+  "event_time",
+  "value",
+  "currency",
+  "product_id",
+  "content_name",
+  "email",
+  "phone",
+  "name",
+  "document",
+  "city",
+  "state",
+  "zip",
+  "country",
+  "visitor",
+] as const;
+
+export type GenericField = typeof GENERIC_FIELDS[number];
+
+export interface GenericSourceConfig {
+  name: string;
+  auth: { header: string; algorithm: GenericAuthAlgorithm; secrets: string[] };
+  eventType?: string; // sem caminho, todo webhook usa a chave "default" em events
+  actions: EventActions;
+  fields: Partial<Record<GenericField, string>> & { order_id: string };
+  valueDivisor: number;
+  eventSourceUrl?: string;
+}
+
+// Nomes com adaptador próprio (e o frontend) não podem ser usados em GENERIC_WEBHOOKS
+export const RESERVED_SOURCE_NAMES = ["frontend", "hotmart", "kiwify", "eduzz", "stripe"];
+
+export const DEFAULT_GENERIC_EVENT_TYPE = "default";
+
+// "$.data.items[0].id" ou "data.items.0.id" → valor (undefined se o caminho não existe)
+export function readPath(body: unknown, path: string): unknown {
+  const segments = path
+    .replace(/^\$\.?/, "")
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .filter(Boolean);
+  let current: unknown = body;
+  for (const segment of segments) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+export class GenericSourceAdapter implements SourceAdapter<Record<string, unknown>> {
+  readonly name: string;
+  readonly label: string;
+  readonly secretEnv = "GENERIC_WEBHOOKS";
+  readonly piiSource: PiiSource = "generic";
+
+  constructor(private readonly source: GenericSourceConfig) {
+    this.name = source.name;
+    this.label = `genérico ${source.name}`;
+  }
+
+  detect(body: unknown): body is Record<string, unknown> {
+    return !!body && typeof body === "object" && !!textValue(readPath(body, this.source.fields.order_id));
+  }
+
+  verify(request: WebhookRequest): SourceAuthResult {
+    const { header, algorithm, secrets } = this.source.auth;
+    if (secrets.length === 0) return { ok: false, reason: "not_configured" };
+
+    const received = headerValue(request.headers[header.toLowerCase()])?.trim();
+    if (!received) return { ok: false, reason: algorithm === "token" ? "missing_token" : "missing_signature" };
+
+    if (algorithm === "token") {
+      return safeEqualAny(received, secrets) ? { ok: true, method: "token" } : { ok: false, reason: "invalid_token" };
+    }
+    const signature = received.toLowerCase().replace(/^sha(1|256)=/, "");
+    const expected = secrets.map((secret) => hmacHex(algorithm, secret, request.rawBody));
+    return safeEqualAny(signature, expected)
+      ? { ok: true, method: `hmac-${algorithm}` }
+      : { ok: false, reason: "invalid_signature" };
+  }
+
+  transform(body: Record<string, unknown>, config: CapiConfig): SourceEvent {
+    const field = (name: GenericField) => {
+      const path = this.source.fields[name];
+      return path ? readPath(body, path) : undefined;
+    };
+    const key = this.source.eventType
+      ? textValue(readPath(body, this.source.eventType)) || ""
+      : DEFAULT_GENERIC_EVENT_TYPE;
+    const action = resolveEventAction(key, {}, this.source.actions);
+    const orderId = textValue(field("order_id"));
+    const productId = textValue(field("product_id"));
+    const base = {
+      key,
+      action,
+      reference: orderId,
+      identity: { email: field("email"), phone: field("phone"), fullName: field("name"), cpf: field("document") },
+      checkoutVisitor: textValue(field("visitor")),
+      routing: { source: this.name, productId },
+    };
+    if (action.type === "none") return { ...base, event: null };
+
+    const customData: Record<string, unknown> = {
+      content_type: "product",
+      order_id: orderId,
+      source_event: key,
+    };
+    const contentName = textValue(field("content_name"));
+    if (contentName) customData.content_name = contentName;
+    if (productId) customData.content_ids = [productId];
+    const value = toAmount(field("value"), this.source.valueDivisor);
+    if (value !== undefined) {
+      customData.value = value;
+      customData.currency = textValue(field("currency"))?.toUpperCase() || "BRL";
+    }
+
+    return {
+      ...base,
+      event: {
+        event_name: action.event_name,
+        event_time: toEventTime(field("event_time")),
+        action_source: action.action_source || "website",
+        user_data: {
+          ...hashGeoFields({ ct: field("city"), st: field("state"), zp: field("zip"), country: field("country") }).fields,
+        },
+        custom_data: customData,
+        event_source_url: this.source.eventSourceUrl || config.defaultEventSourceUrl,
+        // ✅ DETERMINÍSTICO: retries do mesmo webhook geram o mesmo event_id
+        event_id: sourceEventId(this.name, orderId, action.event_name),
+      },
+      eventIdSource: "order",
+    };
+  }
+}
@@ -0,0 +1,59 @@
+// ✅ FONTE HOTMART (webhook 2.0)
+// Primeira implementação de SourceAdapter: só delega para lib/hotmart.ts e lib/hotmart-auth.ts.
+// Continua aceita em /api/events (URL já cadastrada nos produtos) e também em /api/webhooks/hotmart.
+
+import type { CapiConfig } from "../config";
+import {
+  HotmartWebhookPayload,
+  buildHotmartEventId,
+  eventIdRuleForProduct,
+  hotmartIdentity,
+  isHotmartWebhook,
+  resolveHotmartAction,
+  transformHotmartToMeta,
+} from "../hotmart";
+import { verifyHotmartWebhook } from "../hotmart-auth";
+import { logger } from "../logger";
+import type { PiiSource } from "../pii";
+import type { SourceAdapter, SourceAuthResult, SourceEvent, WebhookRequest } from "./adapter";
+
+export class HotmartSourceAdapter implements SourceAdapter<HotmartWebhookPayload> {
+  readonly name = "hotmart";
+  readonly label = "Hotmart";
+  readonly secretEnv = "HOTMART_HOTTOK";
+  readonly piiSource: PiiSource = "hotmart";
+
+  detect(body: unknown): body is HotmartWebhookPayload {
+    return isHotmartWebhook(body);
+  }
+
+  verify(request: WebhookRequest, config: CapiConfig): SourceAuthResult {
+    return verifyHotmartWebhook(request.headers, request.rawBody, config.hotmart);
+  }
+
+  transform(payload: HotmartWebhookPayload, config: CapiConfig): SourceEvent {
+    // 🔄 Ciclo de vida: compra, reembolso, chargeback, boleto, assinatura...
+    const { key, action } = resolveHotmartAction(payload, config.hotmartActions);
+    const hotmartData = payload.data;
+    const base = {
+      key,
+      action,
+      reference: hotmartData.purchase?.transaction,
+      identity: hotmartIdentity(hotmartData),
+      checkoutVisitor: hotmartData.purchase?.origin?.[config.identity.hotmartParam],
+      routing: { source: this.name, productId: hotmartData.product.id, hotmartProductId: hotmartData.product.id },
+    };
+    if (action.type === "none") return { ...base, event: null };
+
+    const eventIdRule = eventIdRuleForProduct(config.hotmartEventIds, hotmartData.product.id);
+    const event = transformHotmartToMeta(payload, action, eventIdRule);
+    const eventIdSource = buildHotmartEventId(hotmartData, eventIdRule, action.event_name).source;
+    if (action.event_name === "Purchase" && eventIdSource !== eventIdRule.scheme) {
+      logger.warn("Hotmart sem event_id válido no esquema configurado - usando transaction", {
+        scheme: eventIdRule.scheme,
+        event_id: event.event_id,
+      });
+    }
+    return { ...base, event, eventIdSource };
+  }
+}
@@ -0,0 +1,33 @@
+// ✅ REGISTRO DE FONTES: nome da rota (/api/webhooks/<fonte>) → adaptador
+
+import type { CapiConfig } from "../config";
+import type { SourceAdapter } from "./adapter";
+import { EduzzConfig, EduzzSourceAdapter } from "./eduzz";
+import { GenericSourceAdapter, GenericSourceConfig } from "./generic";
+import { HotmartSourceAdapter } from "./hotmart";
+import { KiwifyConfig, KiwifySourceAdapter } from "./kiwify";
+import { StripeConfig, StripeSourceAdapter } from "./stripe";
+
+export interface SourcesConfig {
+  kiwify: KiwifyConfig;
+  eduzz: EduzzConfig;
+  stripe: StripeConfig;
+  generic: Record<string, GenericSourceConfig>;
+}
+
+export const hotmartSource = new HotmartSourceAdapter();
+
+// Cada adaptador só recebe em transform() o corpo que o próprio detect() aceitou
+const BUILT_IN_SOURCES: Record<string, SourceAdapter<unknown>> = {
+  hotmart: hotmartSource,
+  kiwify: new KiwifySourceAdapter(),
+  eduzz: new EduzzSourceAdapter(),
+  stripe: new StripeSourceAdapter(),
+};
+
+// O nome vem da URL: só chaves próprias (nada de "constructor", "__proto__"...)
+export function getSourceAdapter(name: string, config: CapiConfig): SourceAdapter<unknown> | null {
+  const own = (record: object) => Object.prototype.hasOwnProperty.call(record, name);
+  if (own(BUILT_IN_SOURCES)) return BUILT_IN_SOURCES[name];
+  return own(config.sources.generic) ? new GenericSourceAdapter(config.sources.generic[name]) : null;
+}
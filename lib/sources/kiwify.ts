@@ -0,0 +1,145 @@
+// ✅ FONTE KIWIFY
+// A Kiwify assina cada webhook com HMAC-SHA1 do corpo usando o token do webhook (painel →
+// Apps → Webhooks) e manda a assinatura na query string: /api/webhooks/kiwify?signature=<hex>.
+// O evento vem em webhook_event_type; valores monetários em Commissions vêm em centavos.
+
+import type { CapiConfig } from "../config";
+import { safeEqualAny } from "../hash";
+import { headerValue } from "../http";
+import { hashGeoFields } from "../geo";
+import type { PiiSource } from "../pii";
+import {
+  EventActions,
+  SourceAdapter,
+  SourceAuthResult,
+  SourceEvent,
+  WebhookRequest,
+  hmacHex,
+  isRecord,
+  resolveEventAction,
+  sourceEventId,
+  textValue,
+  toAmount,
+  toEventTime,
+} from "./adapter";
+
+export interface KiwifyConfig {
+  tokens: string[];
+  actions: EventActions;
+}
+
+export interface KiwifyWebhookPayload {
+  order_id: string;
+  order_ref?: string;
+  order_status?: string; // paid, waiting_payment, refused, refunded, chargedback
+  webhook_event_type?: string;
+  payment_method?: string; // credit_card, boleto, pix
+  created_at?: string; // "2024-05-10 14:32"
+  approved_date?: string;
+  Product?: { product_id?: string; product_name?: string };
+  Customer?: {
+    full_name?: string;
+    email?: string;
+    mobile?: string;
+    CPF?: string;
+    city?: string;
+    state?: string;
+    zipcode?: string;
+  };
+  Commissions?: { charge_amount?: number | string; product_base_price?: number | string; currency?: string };
+  TrackingParameters?: Record<string, string | null | undefined>;
+  subscription_id?: string;
+}
+
+export const DEFAULT_KIWIFY_EVENT_ACTIONS: EventActions = {
+  order_approved: { type: "meta", event_name: "Purchase" },
+  // Boleto/Pix gerado: intenção de compra, ainda sem receita
+  billet_created: { type: "meta", event_name: "InitiateCheckout" },
+  pix_created: { type: "meta", event_name: "InitiateCheckout" },
+  order_refunded: { type: "custom", event_name: "PurchaseRefunded", action_source: "system_generated" },
+  chargeback: { type: "custom", event_name: "PurchaseChargeback", action_source: "system_generated" },
+  subscription_renewed: { type: "meta", event_name: "Subscribe" },
+  subscription_canceled: { type: "custom", event_name: "SubscriptionCanceled", action_source: "system_generated" },
+};
+
+// Webhooks antigos não trazem webhook_event_type: deduz pelo status do pedido
+const STATUS_EVENTS: Record<string, string> = {
+  paid: "order_approved",
+  refunded: "order_refunded",
+  chargedback: "chargeback",
+  refused: "order_rejected",
+};
+
+export class KiwifySourceAdapter implements SourceAdapter<KiwifyWebhookPayload> {
+  readonly name = "kiwify";
+  readonly label = "Kiwify";
+  readonly secretEnv = "KIWIFY_WEBHOOK_TOKEN";
+  readonly piiSource: PiiSource = "kiwify";
+
+  detect(body: unknown): body is KiwifyWebhookPayload {
+    return (
+      isRecord(body) &&
+      typeof body.order_id === "string" &&
+      isRecord(body.Product) &&
+      (typeof body.webhook_event_type === "string" || typeof body.order_status === "string")
+    );
+  }
+
+  verify(request: WebhookRequest, config: CapiConfig): SourceAuthResult {
+    const { tokens } = config.sources.kiwify;
+    if (tokens.length === 0) return { ok: false, reason: "not_configured" };
+
+    const signature = headerValue(request.query?.signature)?.trim().toLowerCase();
+    if (!signature) return { ok: false, reason: "missing_signature" };
+
+    const expected = tokens.map((token) => hmacHex("sha1", token, request.rawBody));
+    return safeEqualAny(signature, expected) ? { ok: true, method: "hmac-sha1" } : { ok: false, reason: "invalid_signature" };
+  }
+
+  transform(payload: KiwifyWebhookPayload, config: CapiConfig): SourceEvent {
+    const key = payload.webhook_event_type || STATUS_EVENTS[payload.order_status || ""] || payload.order_status || "";
+    const action = resolveEventAction(key, DEFAULT_KIWIFY_EVENT_ACTIONS, config.sources.kiwify.actions);
+    const { Customer: customer = {}, Product: product = {}, Commissions: commissions = {} } = payload;
+    const base = {
+      key,
+      action,
+      reference: payload.order_id,
+      identity: { email: customer.email, phone: customer.mobile, fullName: customer.full_name, cpf: customer.CPF },
+      checkoutVisitor: payload.TrackingParameters?.[config.identity.hotmartParam] || undefined,
+      routing: { source: this.name, productId: product.product_id },
+    };
+    if (action.type === "none") return { ...base, event: null };
+
+    const customData: Record<string, unknown> = {
+      content_type: "product",
+      order_id: payload.order_id,
+      kiwify_event: key,
+    };
+    if (product.product_name) customData.content_name = product.product_name;
+    if (product.product_id) customData.content_ids = [product.product_id];
+    const value = toAmount(commissions.charge_amount ?? commissions.product_base_price, 100);
+    if (value !== undefined) {
+      customData.value = value;
+      customData.currency = textValue(commissions.currency)?.toUpperCase() || "BRL";
+    }
+    if (payload.payment_method) customData.payment_type = payload.payment_method;
+    if (payload.subscription_id) customData.subscription_id = payload.subscription_id;
+
+    return {
+      ...base,
+      event: {
+        event_name: action.event_name,
+        event_time: toEventTime(payload.approved_date || payload.created_at),
+        action_source: action.action_source || "website",
+        user_data: {
+          ...hashGeoFields({ ct: customer.city, st: customer.state, zp: customer.zipcode }).fields,
+        },
+        custom_data: customData,
+        event_source_url: "https://pay.kiwify.com.br",
+        // ✅ DETERMINÍSTICO: retries do mesmo webhook geram o mesmo event_id
+        event_id: sourceEventId(this.name, payload.order_id, action.event_name),
+      },
+      eventIdSource: "order",
+    };
+  }
+}
@@ -0,0 +1,181 @@
+// ✅ FONTE STRIPE CHECKOUT (eventos checkout.session.*)
+// Assinatura no header Stripe-Signature: "t=<unix>,v1=<hex>[,v1=...]", HMAC-SHA256 de
+// "<t>.<corpo bruto>" com o segredo do endpoint (whsec_...). O timestamp fora da tolerância
+// é recusado para impedir replay de um webhook capturado.
+// Meios assíncronos (boleto, pix) chegam como checkout.session.completed com payment_status
+// "unpaid" e só depois checkout.session.async_payment_succeeded: o primeiro vira o evento
+// sintético checkout.session.pending_payment (InitiateCheckout), o segundo o Purchase.
+// O token do visitante vai em client_reference_id (ou metadata.visitor_token) na criação da sessão.
+
+import type { CapiConfig } from "../config";
+import { safeEqualAny } from "../hash";
+import { headerValue } from "../http";
+import { hashGeoFields } from "../geo";
+import type { PiiSource } from "../pii";
+import {
+  EventActions,
+  SourceAdapter,
+  SourceAuthResult,
+  SourceEvent,
+  WebhookRequest,
+  hmacHex,
+  isRecord,
+  resolveEventAction,
+  sourceEventId,
+  textValue,
+  toAmount,
+  toEventTime,
+} from "./adapter";
+
+export interface StripeConfig {
+  secrets: string[];
+  actions: EventActions;
+  toleranceSeconds: number;
+}
+
+export interface StripeCheckoutSession {
+  object: "checkout.session";
+  id: string;
+  mode?: "payment" | "subscription" | "setup";
+  payment_status?: "paid" | "unpaid" | "no_payment_required";
+  amount_total?: number | null; // unidade mínima da moeda (centavos)
+  currency?: string | null;
+  client_reference_id?: string | null;
+  customer_details?: {
+    email?: string | null;
+    name?: string | null;
+    phone?: string | null;
+    address?: { city?: string | null; state?: string | null; postal_code?: string | null; country?: string | null } | null;
+    tax_ids?: Array<{ type?: string; value?: string }> | null;
+  } | null;
+  metadata?: Record<string, string> | null;
+  payment_method_types?: string[];
+  subscription?: string | null;
+}
+
+export interface StripeEvent {
+  id: string;
+  object: "event";
+  type: string;
+  created: number;
+  livemode?: boolean;
+  data: { object: StripeCheckoutSession };
+}
+
+export const STRIPE_PENDING_PAYMENT_EVENT = "checkout.session.pending_payment";
+
+export const DEFAULT_STRIPE_EVENT_ACTIONS: EventActions = {
+  "checkout.session.completed": { type: "meta", event_name: "Purchase" },
+  "checkout.session.async_payment_succeeded": { type: "meta", event_name: "Purchase" },
+  [STRIPE_PENDING_PAYMENT_EVENT]: { type: "meta", event_name: "InitiateCheckout" },
+};
+
+// Moedas sem casas decimais: amount_total já está na unidade
+const ZERO_DECIMAL_CURRENCIES = [
+  "bif", "clp", "djf", "gnf", "jpy", "kmf", "krw", "mga", "pyg", "rwf", "ugx", "vnd", "vuv", "xaf", "xof", "xpf",
+];
+
+function parseSignatureHeader(header: string): { timestamp: number; signatures: string[] } {
+  let timestamp = NaN;
+  const signatures: string[] = [];
+  header.split(",").forEach((part) => {
+    const [name, value] = part.trim().split("=");
+    if (name === "t") timestamp = Number(value);
+    else if (name === "v1" && value) signatures.push(value.toLowerCase());
+  });
+  return { timestamp, signatures };
+}
+
+export class StripeSourceAdapter implements SourceAdapter<StripeEvent> {
+  readonly name = "stripe";
+  readonly label = "Stripe";
+  readonly secretEnv = "STRIPE_WEBHOOK_SECRET";
+  readonly piiSource: PiiSource = "stripe";
+
+  detect(body: unknown): body is StripeEvent {
+    if (!isRecord(body) || body.object !== "event" || typeof body.type !== "string") return false;
+    if (!body.type.startsWith("checkout.session.") || !isRecord(body.data)) return false;
+    const session = body.data.object;
+    return isRecord(session) && session.object === "checkout.session" && typeof session.id === "string";
+  }
+
+  verify(request: WebhookRequest, config: CapiConfig, now: number = Date.now()): SourceAuthResult {
+    const { secrets, toleranceSeconds } = config.sources.stripe;
+    if (secrets.length === 0) return { ok: false, reason: "not_configured" };
+
+    const header = headerValue(request.headers["stripe-signature"]);
+    if (!header) return { ok: false, reason: "missing_signature" };
+    const { timestamp, signatures } = parseSignatureHeader(header);
+    if (!Number.isFinite(timestamp) || signatures.length === 0) return { ok: false, reason: "missing_signature" };
+
+    const signedPayload = Buffer.concat([Buffer.from(`${timestamp}.`), request.rawBody]);
+    const expected = secrets.map((secret) => hmacHex("sha256", secret, signedPayload));
+    // map antes do some: todas as assinaturas são comparadas, sem curto-circuito
+    const matched = signatures.map((signature) => safeEqualAny(signature, expected)).some(Boolean);
+    if (!matched) return { ok: false, reason: "invalid_signature" };
+
+    if (Math.abs(Math.floor(now / 1000) - timestamp) > toleranceSeconds) {
+      return { ok: false, reason: "expired_signature" };
+    }
+    return { ok: true, method: "stripe-signature" };
+  }
+
+  transform(payload: StripeEvent, config: CapiConfig): SourceEvent {
+    const session = payload.data.object;
+    const key =
+      payload.type === "checkout.session.completed" && session.payment_status === "unpaid"
+        ? STRIPE_PENDING_PAYMENT_EVENT
+        : payload.type;
+    const action = resolveEventAction(key, DEFAULT_STRIPE_EVENT_ACTIONS, config.sources.stripe.actions);
+    const customer = session.customer_details || {};
+    const metadata = session.metadata || {};
+    const cpf = (customer.tax_ids || []).find((taxId) => taxId.type === "br_cpf")?.value;
+    const base = {
+      key,
+      action,
+      reference: session.id,
+      identity: { email: customer.email, phone: customer.phone, fullName: customer.name, cpf },
+      checkoutVisitor: [session.client_reference_id, metadata.visitor_token].filter(Boolean).join("|") || undefined,
+      routing: { source: this.name, productId: textValue(metadata.product_id) },
+    };
+    if (action.type === "none") return { ...base, event: null };
+
+    const customData: Record<string, unknown> = {
+      content_type: "product",
+      order_id: session.id,
+      stripe_event: key,
+    };
+    if (metadata.content_name) customData.content_name = metadata.content_name;
+    if (metadata.product_id) customData.content_ids = [metadata.product_id];
+    const currency = textValue(session.currency)?.toLowerCase();
+    if (typeof session.amount_total === "number" && currency) {
+      customData.value = toAmount(session.amount_total, ZERO_DECIMAL_CURRENCIES.includes(currency) ? 1 : 100);
+      customData.currency = currency.toUpperCase();
+    }
+    if (session.mode) customData.checkout_mode = session.mode;
+    if (session.subscription) customData.subscription_id = session.subscription;
+
+    const address = customer.address || {};
+    return {
+      ...base,
+      event: {
+        event_name: action.event_name,
+        event_time: toEventTime(payload.created),
+        action_source: action.action_source || "website",
+        user_data: {
+          ...hashGeoFields({
+            ct: address.city,
+            st: address.state,
+            zp: address.postal_code,
+            country: address.country,
+          }).fields,
+        },
+        custom_data: customData,
+        event_source_url: "https://checkout.stripe.com",
+        // ✅ DETERMINÍSTICO: completed e async_payment_succeeded da mesma sessão geram o mesmo Purchase
+        event_id: sourceEventId(this.name, session.id, action.event_name),
+      },
+      eventIdSource: "checkout_session",
+    };
+  }
+}
@@ -0,0 +1,208 @@
+// ✅ PIPELINE DE WEBHOOKS DE PLATAFORMAS (igual para todas as fontes)
+// assinatura → mapeamento do evento → transformação → PII opt-in → visitante do checkout →
+// deduplicação → roteamento → dry-run ou entrega síncrona (Meta e, se configurados, GA4/TikTok). Qualquer
+// resposta não-2xx faz a plataforma reenviar o webhook depois; por isso não há coalescência em lote aqui.
+
+import type { FileAuditLog } from "../audit";
+import type { CapiConfig } from "../config";
+import { DedupStore, isDuplicateEvent } from "../dedup";
+import { deliverToPixels } from "../delivery";
+import {
+  deliverToGa4,
+  derivedClientId,
+  dryRunGa4,
+  Ga4DeliveryResult,
+  Ga4EventInput,
+  isGa4Enabled,
+} from "../destinations/ga4";
+import {
+  deliverToTiktok,
+  dryRunTiktok,
+  isTiktokEnabled,
+  TiktokDeliveryResult,
+  TiktokEventInput,
+} from "../destinations/tiktok";
+import type { ApiResponse } from "../http";
+import { checkoutVisitorId, ExternalIdSource, visitorExternalId } from "../identity";
+import { logger } from "../logger";
+import { recordEvents } from "../metrics";
+import { aggregateStatus, dryRunPixels } from "../meta";
+import { hashIdentity, isPiiEnabled } from "../pii";
+import type { RetryQueue } from "../retry-queue";
+import { groupEventsByPixel } from "../routing";
+import type { RequestMode } from "../test-mode";
+import type { SourceAdapter, WebhookRequest } from "./adapter";
+
+export interface WebhookContext {
+  request: WebhookRequest;
+  ip: string;
+  userAgent: string;
+  config: CapiConfig;
+  mode: RequestMode;
+  dedupStore: DedupStore;
+  retryQueue: RetryQueue | null;
+  audit: FileAuditLog | null;
+}
+
+export async function handleSourceWebhook<TBody>(
+  adapter: SourceAdapter<TBody>,
+  body: TBody,
+  context: WebhookContext,
+  res: ApiResponse
+): Promise<void> {
+  const { config, mode, dedupStore, retryQueue, audit } = context;
+
+  // 🔐 Validar assinatura/token antes de qualquer processamento
+  const auth = adapter.verify(context.request, config);
+  if (!auth.ok) {
+    logger.warn(`Webhook ${adapter.label} rejeitado`, {
+      source: adapter.name,
+      reason: auth.reason,
+      ip: context.ip,
+      user_agent: context.userAgent,
+    });
+    if (auth.reason === "not_configured") {
+      logger.error(`CRÍTICO: ${adapter.secretEnv} não configurado - todos os webhooks ${adapter.label} serão rejeitados`);
+    }
+    return res.status(401).json({ error: `Webhook ${adapter.label} não autorizado`, reason: auth.reason });
+  }
+  logger.debug(`Webhook ${adapter.label} autenticado`, { method: auth.method });
+
+  const sourceEvent = adapter.transform(body, config);
+  const { key: actionKey, action, event } = sourceEvent;
+  if (!event) {
+    logger.info(`Evento ${adapter.label} ignorado (sem mapeamento configurado)`, { source_event: actionKey });
+    return res.status(200).json({ status: "ignored", source: adapter.name, event: actionKey });
+  }
+  recordEvents("received", adapter.name, [event]);
+
+  // 🔐 PII opt-in: email, telefone, nome e (opcionalmente) CPF normalizados e hasheados
+  if (isPiiEnabled(config.pii, adapter.piiSource)) {
+    const pii = hashIdentity(sourceEvent.identity, config.pii);
+    Object.assign(event.user_data, pii.fields);
+    logger.debug(`PII ${adapter.label} hasheada`, {
+      fields: Object.keys(pii.fields),
+      rejected: pii.rejected,
+    });
+  }
+
+  // 🪪 Token do visitante repassado pelo checkout: mesmo external_id dos eventos do navegador
+  const visitorId = checkoutVisitorId(sourceEvent.checkoutVisitor, config.identity);
+  if (visitorId) event.user_data.external_id = visitorExternalId(visitorId);
+  const externalIdSource: ExternalIdSource = visitorId
+    ? `${adapter.name}_checkout`
+    : event.user_data.external_id
+      ? "cpf"
+      : "none";
+
+  // Verificar duplicata (dry-run não consulta nem grava no cache)
+  if (!mode.dryRun && (await isDuplicateEvent(dedupStore, event.event_id!))) {
+    recordEvents("deduplicated", adapter.name, [event]);
+    logger.info(`Evento ${adapter.label} duplicado ignorado`, { event_id: event.event_id });
+    return res.status(200).json({ status: "duplicate_ignored", event_id: event.event_id });
+  }
+
+  // 🎯 Roteamento: fonte / produto / nome do evento definem o(s) pixel(s) de destino
+  const batches = groupEventsByPixel([event], sourceEvent.routing, config);
+
+  logger.info(`Enviando evento ${adapter.label} para Meta CAPI`, {
+    source: adapter.name,
+    source_event: actionKey,
+    meta_event: event.event_name,
+    action_type: action.type,
+    event_id: event.event_id,
+    event_id_source: sourceEvent.eventIdSource,
+    external_id_source: externalIdSource,
+    reference: sourceEvent.reference,
+    value: event.custom_data?.value,
+    currency: event.custom_data?.currency,
+    pixels: batches.map((batch) => batch.target.key),
+    test_event_code: mode.testEventCode,
+    dry_run: mode.dryRun,
+  });
+
+  // 📊 GA4: compra na plataforma não passa pelo banner de cookies. Sem _ga, client_id sai do
+  // external_id; sem visitante, do próprio event_id (a receita entra mesmo sem ligar ao navegador)
+  const ga4Enabled = isGa4Enabled(config.ga4);
+  const ga4Inputs: Ga4EventInput[] = ga4Enabled
+    ? [
+        {
+          event,
+          consent: "forward",
+          clientId: event.user_data.external_id ? undefined : derivedClientId(event.event_id),
+        },
+      ]
+    : [];
+  const tiktokEnabled = isTiktokEnabled(config.tiktok);
+  const tiktokInputs: TiktokEventInput[] = tiktokEnabled ? [{ event, consent: "forward" }] : [];
+
+  const summary = {
+    source: adapter.name,
+    source_event: actionKey,
+    meta_event: event.event_name,
+    event_id: event.event_id,
+    event_id_source: sourceEvent.eventIdSource,
+    external_id_source: externalIdSource,
+  };
+
+  if (mode.dryRun) {
+    return res.status(200).json({
+      status: "dry_run",
+      ...summary,
+      test_event_code: mode.testEventCode,
+      pixels: dryRunPixels(batches, mode.testEventCode),
+      ...(ga4Enabled ? { ga4: dryRunGa4(ga4Inputs, config.ga4) } : {}),
+      ...(tiktokEnabled ? { tiktok: dryRunTiktok(tiktokInputs, config.tiktok, { test: !!mode.testEventCode }) } : {}),
+    });
+  }
+
+  const userAgent = `DigitalPaisagismo-CAPI/8.3-${adapter.label.replace(/\s+/g, "-")}`;
+  const [results, ga4, tiktok] = await Promise.all([
+    deliverToPixels(batches, {
+      dedupStore,
+      retryQueue,
+      audit,
+      userAgent,
+      testEventCode: mode.testEventCode,
+      source: adapter.name,
+    }),
+    ga4Enabled
+      ? deliverToGa4(ga4Inputs, config.ga4, { debug: !!mode.testEventCode, userAgent })
+      : Promise.resolve<Ga4DeliveryResult>(null),
+    tiktokEnabled
+      ? deliverToTiktok(tiktokInputs, config.tiktok, { test: !!mode.testEventCode, userAgent })
+      : Promise.resolve<TiktokDeliveryResult>(null),
+  ]);
+  const status = aggregateStatus(results);
+
+  if (status === 200) {
+    logger.info(`Evento ${adapter.label} enviado com sucesso para Meta CAPI`, {
+      event_id: event.event_id,
+      pixels: results.length,
+    });
+    return res.status(200).json({
+      status: "success",
+      ...summary,
+      ...(mode.testEventCode ? { test_event_code: mode.testEventCode } : {}),
+      pixels: results,
+      destinations: { meta: { status: "success" }, ...(ga4 ? { ga4 } : {}), ...(tiktok ? { tiktok } : {}) },
+    });
+  }
+  logger.error(`Erro ao enviar evento ${adapter.label} para Meta CAPI`, {
+    event_id: event.event_id,
+    failed_pixels: results.filter((result) => !result.ok),
+  });
+  // Status pela categoria do erro (token inválido → 502, rate limit → 429...): qualquer
+  // não-2xx faz a plataforma reenviar o webhook depois. GA4 e TikTok não influenciam o status.
+  const failedResult = results.find((result) => !result.ok);
+  const metaStatus = status === 207 ? "partial_success" : "error";
+  return res.status(status).json({
+    status: metaStatus,
+    error: `Erro ao processar webhook ${adapter.label}`,
+    error_category: failedResult?.error?.category,
+    event_id: event.event_id,
+    external_id_source: externalIdSource,
+    pixels: results,
+    destinations: { meta: { status: metaStatus }, ...(ga4 ? { ga4 } : {}), ...(tiktok ? { tiktok } : {}) },
+  });
+}
@@ -0,0 +1,55 @@
+// ✅ MODO DE TESTE (Test Events da Meta) E DRY-RUN
+// - test_event_code: vem de META_TEST_EVENT_CODE (staging inteiro) ou do header
+//   X-Test-Event-Code. É repassado à Meta e os eventos aparecem só na aba "Testar eventos".
+// - dry-run: DRY_RUN=true ou header X-Dry-Run. Roda todo o pipeline de enriquecimento e
+//   devolve o payload exato que iria para a Meta, sem chamar a Meta e sem tocar na deduplicação.
+// Os headers só valem com "Authorization: Bearer <ADMIN_TOKEN>": sem isso, qualquer visitante
+// poderia desviar eventos de produção para o modo de teste.
+
+import { safeEqual } from "./hash";
+import { bearerToken, headerValue } from "./http";
+
+export interface TestModeConfig {
+  testEventCode?: string;
+  dryRun: boolean;
+  adminToken?: string;
+}
+
+export interface RequestMode {
+  testEventCode?: string;
+  dryRun: boolean;
+  // Preenchido quando a requisição pediu modo de teste sem autorização válida
+  rejected?: "admin_token_not_configured" | "invalid_admin_token" | "invalid_test_event_code";
+}
+
+export const TEST_EVENT_CODE_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+function isTruthyHeader(value: string | undefined): boolean {
+  return !!value && ["1", "true", "yes"].includes(value.trim().toLowerCase());
+}
+
+export function isAdminRequest(headers: Record<string, string | string[] | undefined>, adminToken?: string): boolean {
+  const token = bearerToken(headers);
+  return !!adminToken && !!token && safeEqual(token, adminToken);
+}
+
+export function resolveRequestMode(
+  headers: Record<string, string | string[] | undefined>,
+  config: TestModeConfig
+): RequestMode {
+  const headerCode = headerValue(headers["x-test-event-code"])?.trim();
+  const headerDryRun = isTruthyHeader(headerValue(headers["x-dry-run"]));
+  const mode: RequestMode = { testEventCode: config.testEventCode, dryRun: config.dryRun };
+
+  if (!headerCode && !headerDryRun) return mode;
+
+  if (!config.adminToken) return { ...mode, rejected: "admin_token_not_configured" };
+  if (!isAdminRequest(headers, config.adminToken)) return { ...mode, rejected: "invalid_admin_token" };
+
+  if (headerCode) {
+    if (!TEST_EVENT_CODE_PATTERN.test(headerCode)) return { ...mode, rejected: "invalid_test_event_code" };
+    mode.testEventCode = headerCode;
+  }
+  if (headerDryRun) mode.dryRun = true;
+  return mode;
+}
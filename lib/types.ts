@@ -0,0 +1,31 @@
+// ✅ TIPOS COMPARTILHADOS: formato de evento Meta CAPI usado por todas as fontes
+
+export interface UserData {
+  external_id?: string;
+  fbp?: string;
+  fbc?: string;
+  ttclid?: string; // TikTok: id do clique (também lido do event_source_url)
+  ttp?: string; // TikTok: cookie _ttp do pixel
+  ct?: string;  // ✅ CORRETO: Meta CAPI usa 'ct' para city
+  st?: string;  // ✅ CORRETO: Meta CAPI usa 'st' para state  
+  zp?: string;  // ✅ CORRETO: Meta CAPI usa 'zp' para postal
+  country?: string;  // ✅ ADICIONADO: Campo country usado no código (linhas 663-672)
+  // 🔐 PII só é enviada com enriquecimento opt-in (lib/pii.ts) e sempre em SHA-256
+  em?: string;
+  ph?: string;
+  fn?: string;
+  ln?: string;
+  [key: string]: unknown;
+}
+
+export interface EventData {
+  event_id?: string;
+  event_name?: string;
+  event_time?: number | string;
+  event_source_url?: string;
+  action_source?: string;
+  session_id?: string;
+  user_data?: UserData;
+  custom_data?: Record<string, unknown>;
+  [key: string]: unknown;
+}
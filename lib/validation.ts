@@ -0,0 +1,378 @@
+// ✅ VALIDAÇÃO DE EVENTOS DO FRONTEND (EventData / UserData / custom_data)
+// A Meta rejeita o LOTE inteiro quando um único evento é inválido. Aqui cada evento é
+// validado isoladamente: problemas corrigíveis são reparados (ex: event_time em string,
+// moeda em minúsculas), o resto descarta só aquele evento. O resultado por evento volta
+// na resposta para o frontend saber exatamente o que foi enviado.
+
+import type { EventData } from "./types";
+
+export interface ValidationConfig {
+  // Eventos customizados aceitos além dos padrão da Meta
+  customEventNames: string[];
+}
+
+export type EventValidationStatus = "valid" | "repaired" | "rejected";
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+  action: "repaired" | "removed" | "rejected";
+}
+
+export interface EventValidationResult {
+  index: number;
+  event_id?: string;
+  status: EventValidationStatus;
+  issues: ValidationIssue[];
+}
+
+export interface ValidationSummary {
+  valid: number;
+  repaired: number;
+  rejected: number;
+  events: EventValidationResult[];
+}
+
+// https://developers.facebook.com/docs/meta-pixel/reference#standard-events
+export const STANDARD_EVENT_NAMES = [
+  "AddPaymentInfo",
+  "AddToCart",
+  "AddToWishlist",
+  "CompleteRegistration",
+  "Contact",
+  "CustomizeProduct",
+  "Donate",
+  "FindLocation",
+  "InitiateCheckout",
+  "Lead",
+  "PageView",
+  "Purchase",
+  "Schedule",
+  "Search",
+  "StartTrial",
+  "SubmitApplication",
+  "Subscribe",
+  "ViewContent",
+];
+
+const ACTION_SOURCES = [
+  "website",
+  "app",
+  "email",
+  "phone_call",
+  "chat",
+  "physical_store",
+  "system_generated",
+  "business_messaging",
+  "other",
+];
+
+// ISO 4217 - moedas ativas
+const ISO_4217 = new Set(
+  (
+    "AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BHD BIF BMD BND BOB BRL BSD BTN BWP BYN BZD " +
+    "CAD CDF CHF CLP CNY COP CRC CUP CVE CZK DJF DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP GEL GHS GIP GMD " +
+    "GNF GTQ GYD HKD HNL HTG HUF IDR ILS INR IQD IRR ISK JMD JOD JPY KES KGS KHR KMF KPW KRW KWD KYD KZT " +
+    "LAK LBP LKR LRD LSL LYD MAD MDL MGA MKD MMK MNT MOP MRU MUR MVR MWK MXN MYR MZN NAD NGN NIO NOK NPR " +
+    "NZD OMR PAB PEN PGK PHP PKR PLN PYG QAR RON RSD RUB RWF SAR SBD SCR SDG SEK SGD SHP SLE SOS SRD SSP " +
+    "STN SVC SYP SZL THB TJS TMT TND TOP TRY TTD TWD TZS UAH UGX USD UYU UZS VES VND VUV WST XAF XCD XOF " +
+    "XPF YER ZAR ZMW ZWL"
+  ).split(" ")
+);
+
+// user_data aceito do frontend: todos os campos são strings (ver UserData)
+const USER_DATA_STRING_FIELDS = ["external_id", "fbp", "fbc", "ttclid", "ttp", "ct", "st", "zp", "country", "em", "ph", "fn", "ln"];
+
+// Meta recusa event_time mais antigo que 7 dias ou no futuro
+const MAX_EVENT_AGE_SECONDS = 7 * 24 * 60 * 60;
+// Tolerância para relógio adiantado do navegador: até 5 min é trazido para "agora"
+const MAX_CLOCK_SKEW_SECONDS = 5 * 60;
+const CUSTOM_EVENT_NAME_PATTERN = /^[A-Za-z0-9_ -]{1,50}$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() && !isNaN(Number(value))) return Number(value);
+  return null;
+}
+
+class IssueCollector {
+  readonly issues: ValidationIssue[] = [];
+
+  repaired(field: string, message: string): void {
+    this.issues.push({ field, message, action: "repaired" });
+  }
+
+  removed(field: string, message: string): void {
+    this.issues.push({ field, message, action: "removed" });
+  }
+
+  rejected(field: string, message: string): void {
+    this.issues.push({ field, message, action: "rejected" });
+  }
+
+  get isRejected(): boolean {
+    return this.issues.some((issue) => issue.action === "rejected");
+  }
+}
+
+// ==================== CAMPOS ====================
+function validateEventName(event: EventData, config: ValidationConfig, issues: IssueCollector): void {
+  if (event.event_name === undefined || event.event_name === null || event.event_name === "") {
+    return; // ausente → "Lead" no enriquecimento (comportamento original)
+  }
+  if (typeof event.event_name !== "string") {
+    issues.rejected("event_name", "deve ser string");
+    return;
+  }
+
+  const name = event.event_name.trim();
+  if (STANDARD_EVENT_NAMES.includes(name) || config.customEventNames.includes(name)) {
+    if (name !== event.event_name) {
+      event.event_name = name;
+      issues.repaired("event_name", "espaços removidos");
+    }
+    return;
+  }
+
+  const standard = STANDARD_EVENT_NAMES.find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+  if (standard) {
+    event.event_name = standard;
+    issues.repaired("event_name", `normalizado para ${standard}`);
+    return;
+  }
+  if (!CUSTOM_EVENT_NAME_PATTERN.test(name)) {
+    issues.rejected("event_name", "nome inválido");
+    return;
+  }
+  issues.rejected("event_name", "evento não padrão e fora de CUSTOM_EVENT_NAMES");
+}
+
+function validateEventTime(event: EventData, nowSeconds: number, issues: IssueCollector): void {
+  if (event.event_time === undefined || event.event_time === null || event.event_time === "") return;
+
+  let eventTime = toNumber(event.event_time);
+  if (eventTime === null) {
+    issues.rejected("event_time", "deve ser timestamp Unix em segundos");
+    return;
+  }
+  if (typeof event.event_time === "string") issues.repaired("event_time", "convertido de string para número");
+
+  if (eventTime > 1e12) {
+    eventTime = eventTime / 1000;
+    issues.repaired("event_time", "convertido de milissegundos para segundos");
+  }
+  eventTime = Math.floor(eventTime);
+
+  if (eventTime > nowSeconds) {
+    if (eventTime - nowSeconds > MAX_CLOCK_SKEW_SECONDS) {
+      issues.rejected("event_time", "no futuro");
+      return;
+    }
+    eventTime = nowSeconds;
+    issues.repaired("event_time", "relógio do navegador adiantado - ajustado para agora");
+  }
+  if (nowSeconds - eventTime > MAX_EVENT_AGE_SECONDS) {
+    issues.rejected("event_time", "mais antigo que 7 dias");
+    return;
+  }
+  event.event_time = eventTime;
+}
+
+function validateEventId(event: EventData, issues: IssueCollector): void {
+  if (event.event_id === undefined || event.event_id === null || event.event_id === "") return;
+  if (typeof event.event_id === "number") {
+    event.event_id = String(event.event_id);
+    issues.repaired("event_id", "convertido de número para string");
+    return;
+  }
+  if (typeof event.event_id !== "string") {
+    issues.rejected("event_id", "deve ser string");
+  }
+}
+
+function validateEnvelope(event: EventData, issues: IssueCollector): void {
+  if (event.action_source !== undefined && !ACTION_SOURCES.includes(event.action_source as string)) {
+    event.action_source = "website";
+    issues.repaired("action_source", "valor desconhecido - usando website");
+  }
+
+  if (event.event_source_url !== undefined) {
+    let valid = false;
+    if (typeof event.event_source_url === "string") {
+      try {
+        const url = new URL(event.event_source_url);
+        valid = url.protocol === "https:" || url.protocol === "http:";
+      } catch {
+        valid = false;
+      }
+    }
+    if (!valid) {
+      delete event.event_source_url;
+      issues.removed("event_source_url", "URL inválida - usando origem da requisição");
+    }
+  }
+}
+
+function validateUserData(event: EventData, issues: IssueCollector): void {
+  if (event.user_data === undefined) return;
+  if (!isPlainObject(event.user_data)) {
+    delete event.user_data;
+    issues.removed("user_data", "deve ser objeto");
+    return;
+  }
+
+  USER_DATA_STRING_FIELDS.forEach((field) => {
+    const value = event.user_data[field];
+    if (value === undefined || value === null) return;
+    if (typeof value === "number" && (field === "external_id" || field === "zp")) {
+      event.user_data[field] = String(value);
+      issues.repaired(`user_data.${field}`, "convertido de número para string");
+    } else if (typeof value !== "string") {
+      delete event.user_data[field];
+      issues.removed(`user_data.${field}`, "deve ser string");
+    }
+  });
+}
+
+function validateCustomData(event: EventData, issues: IssueCollector): void {
+  if (event.custom_data === undefined) return;
+  if (!isPlainObject(event.custom_data)) {
+    delete event.custom_data;
+    issues.removed("custom_data", "deve ser objeto");
+    return;
+  }
+  const customData = event.custom_data;
+
+  if (customData.value !== undefined) {
+    const value = toNumber(customData.value);
+    if (value === null || value < 0) {
+      delete customData.value;
+      issues.removed("custom_data.value", "deve ser número não negativo");
+    } else if (typeof customData.value !== "number") {
+      customData.value = value;
+      issues.repaired("custom_data.value", "convertido de string para número");
+    }
+  }
+
+  if (customData.currency !== undefined) {
+    const currency = typeof customData.currency === "string" ? customData.currency.trim().toUpperCase() : "";
+    if (!ISO_4217.has(currency)) {
+      delete customData.currency;
+      issues.removed("custom_data.currency", "moeda fora da ISO 4217");
+    } else if (currency !== customData.currency) {
+      customData.currency = currency;
+      issues.repaired("custom_data.currency", `normalizado para ${currency}`);
+    }
+  }
+
+  if (customData.content_ids !== undefined) {
+    const ids = Array.isArray(customData.content_ids) ? customData.content_ids : [customData.content_ids];
+    const normalized = ids
+      .filter((id) => (typeof id === "string" && id.trim()) || (typeof id === "number" && Number.isFinite(id)))
+      .map((id) => String(id).trim());
+    if (normalized.length === 0) {
+      delete customData.content_ids;
+      issues.removed("custom_data.content_ids", "deve ser array de ids");
+    } else if (!Array.isArray(customData.content_ids) || normalized.length !== ids.length || normalized.some((id, i) => id !== ids[i])) {
+      customData.content_ids = normalized;
+      issues.repaired("custom_data.content_ids", "normalizado para array de strings");
+    }
+  }
+
+  if (customData.contents !== undefined) {
+    const contents = Array.isArray(customData.contents) ? customData.contents : [];
+    const valid = contents.filter(
+      (item) => isPlainObject(item) && (typeof item.id === "string" || typeof item.id === "number")
+    );
+    if (valid.length === 0) {
+      delete customData.contents;
+      issues.removed("custom_data.contents", "deve ser array de objetos com id");
+    } else if (valid.length !== contents.length) {
+      customData.contents = valid;
+      issues.removed("custom_data.contents", `${contents.length - valid.length} item(ns) sem id removido(s)`);
+    }
+  }
+
+  if (customData.num_items !== undefined) {
+    const numItems = toNumber(customData.num_items);
+    if (numItems === null || !Number.isInteger(numItems) || numItems < 0) {
+      delete customData.num_items;
+      issues.removed("custom_data.num_items", "deve ser inteiro não negativo");
+    } else if (numItems !== customData.num_items) {
+      customData.num_items = numItems;
+      issues.repaired("custom_data.num_items", "convertido de string para número");
+    }
+  }
+
+  // Purchase exige value + currency válidos na Meta
+  if (event.event_name === "Purchase" && (customData.value === undefined || customData.currency === undefined)) {
+    issues.rejected("custom_data", "Purchase exige value numérico e currency ISO 4217");
+  }
+}
+
+// ==================== API ====================
+export function validateEvent(
+  input: unknown,
+  index: number,
+  config: ValidationConfig,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): { event: EventData | null; result: EventValidationResult } {
+  const issues = new IssueCollector();
+
+  if (!isPlainObject(input)) {
+    issues.rejected("event", "deve ser objeto");
+    return { event: null, result: { index, status: "rejected", issues: issues.issues } };
+  }
+
+  // Cópia rasa + cópias dos objetos aninhados: reparos não alteram o payload original
+  const event: EventData = { ...(input as EventData) };
+  if (isPlainObject(event.user_data)) event.user_data = { ...event.user_data };
+  if (isPlainObject(event.custom_data)) event.custom_data = { ...event.custom_data };
+
+  validateEventId(event, issues);
+  validateEventName(event, config, issues);
+  validateEventTime(event, nowSeconds, issues);
+  validateEnvelope(event, issues);
+  validateUserData(event, issues);
+  validateCustomData(event, issues);
+
+  const status: EventValidationStatus = issues.isRejected ? "rejected" : issues.issues.length > 0 ? "repaired" : "valid";
+  return {
+    event: status === "rejected" ? null : event,
+    result: {
+      index,
+      event_id: typeof event.event_id === "string" ? event.event_id : undefined,
+      status,
+      issues: issues.issues,
+    },
+  };
+}
+
+export function validateEvents(
+  inputs: unknown[],
+  config: ValidationConfig
+): { events: EventData[]; summary: ValidationSummary } {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const events: EventData[] = [];
+  const results: EventValidationResult[] = [];
+
+  inputs.forEach((input, index) => {
+    const { event, result } = validateEvent(input, index, config, nowSeconds);
+    if (event) events.push(event);
+    results.push(result);
+  });
+
+  return {
+    events,
+    summary: {
+      valid: results.filter((result) => result.status === "valid").length,
+      repaired: results.filter((result) => result.status === "repaired").length,
+      rejected: results.filter((result) => result.status === "rejected").length,
+      events: results,
+    },
+  };
+}
@@ -0,0 +1,77 @@
+// ✅ BUSCA NO LOG DE AUDITORIA: GET /api/admin/audit com "Authorization: Bearer <ADMIN_TOKEN>"
+// Filtros (combináveis): event_id, transaction (order_id / transação da plataforma), event_name,
+// source, pixel (chave do pixel), from/to (ISO 8601 ou unix em segundos) e limit.
+//   curl -H "Authorization: Bearer $ADMIN_TOKEN" "https://.../api/admin/audit?transaction=HP123"
+// Os registros trazem o payload exato enviado à Meta e a resposta (com fbtrace_id).
+
+import { AUDIT_DEFAULT_LIMIT, AUDIT_MAX_LIMIT, AuditQuery, getAuditLog } from "../../../lib/audit";
+import { getConfig, ConfigError, CapiConfig } from "../../../lib/config";
+import { ApiRequestBase, ApiResponse, headerValue, remoteAddress } from "../../../lib/http";
+import { logger, withRequestLogging } from "../../../lib/logger";
+import { enforceRateLimit } from "../../../lib/rate-limit";
+import { isAdminRequest } from "../../../lib/test-mode";
+
+// ISO 8601 ou unix em segundos → ms (NaN se inválido)
+function parseTime(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  return /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+}
+
+async function handler(req: ApiRequestBase, res: ApiResponse) {
+  if (req.method !== "GET") return res.status(405).json({ error: "Method Not Allowed" });
+
+  let runtimeConfig: CapiConfig;
+  try {
+    runtimeConfig = getConfig();
+  } catch (error: unknown) {
+    if (error instanceof ConfigError) {
+      logger.error("Busca na auditoria recusada - configuração inválida", { issues: error.issues });
+      return res.status(500).json({ error: "Proxy CAPI não configurado" });
+    }
+    throw error;
+  }
+
+  // 🚦 Política admin antes da checagem do token: limita tentativas de adivinhar o ADMIN_TOKEN
+  const rateLimit = await enforceRateLimit(res, runtimeConfig.rateLimit, runtimeConfig.redis, "admin", [
+    remoteAddress(req),
+  ]);
+  if (!rateLimit.allowed) {
+    return res.status(429).json({ error: "Limite de requisições excedido", retry_after: rateLimit.retryAfterSeconds });
+  }
+
+  if (!isAdminRequest(req.headers, runtimeConfig.testMode.adminToken)) {
+    logger.warn("Chamada não autorizada à busca na auditoria");
+    return res.status(401).json({ error: "Não autorizado" });
+  }
+
+  const audit = getAuditLog(runtimeConfig.audit);
+  if (!audit) return res.status(200).json({ status: "disabled" });
+
+  const param = (name: string) => headerValue(req.query?.[name])?.trim() || undefined;
+  const from = parseTime(param("from"));
+  const to = parseTime(param("to"));
+  const limit = param("limit") ? Number(param("limit")) : AUDIT_DEFAULT_LIMIT;
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return res.status(400).json({ error: "from/to devem ser ISO 8601 ou unix em segundos" });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > AUDIT_MAX_LIMIT) {
+    return res.status(400).json({ error: `limit deve ser um inteiro entre 1 e ${AUDIT_MAX_LIMIT}` });
+  }
+
+  const query: AuditQuery = {
+    event_id: param("event_id"),
+    transaction: param("transaction"),
+    event_name: param("event_name"),
+    source: param("source"),
+    pixel_key: param("pixel"),
+    from,
+    to,
+    limit,
+  };
+  const records = await audit.search(query);
+
+  res.setHeader("Cache-Control", "no-store");
+  res.status(200).json({ status: "ok", count: records.length, records });
+}
+
+export default withRequestLogging(handler);
@@ -0,0 +1,119 @@
+// ✅ REPLAY DE EVENTOS AUDITADOS: POST /api/admin/replay com "Authorization: Bearer <ADMIN_TOKEN>"
+// Corpo JSON: { "ids": ["aud_..."] } (ids da busca em /api/admin/audit) ou { "event_ids": [...] }
+// (todos os registros daquele event_id), mais um destino obrigatório:
+//   "test_event_code": "TEST123"  → aba "Testar eventos" do pixel
+//   "live": true                  → pixel real (evento que a Meta recusou ou que se perdeu)
+// O payload reenviado é o gravado na auditoria; eventos com mais de 7 dias são pulados.
+
+import { AUDIT_ID_PATTERN, getAuditLog, AuditRecord } from "../../../lib/audit";
+import { getConfig, ConfigError, CapiConfig } from "../../../lib/config";
+import { replayAuditRecords } from "../../../lib/delivery";
+import { ApiRequestBase, ApiResponse, remoteAddress } from "../../../lib/http";
+import { logger, withRequestLogging } from "../../../lib/logger";
+import { enforceRateLimit } from "../../../lib/rate-limit";
+import { isAdminRequest, TEST_EVENT_CODE_PATTERN } from "../../../lib/test-mode";
+
+const MAX_REPLAY_RECORDS = 100;
+
+interface ReplayRequest extends ApiRequestBase {
+  body?: { ids?: unknown; event_ids?: unknown; test_event_code?: unknown; live?: unknown };
+}
+
+function stringList(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string" && item.length > 0)) return null;
+  return value;
+}
+
+async function handler(req: ReplayRequest, res: ApiResponse) {
+  if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+  let runtimeConfig: CapiConfig;
+  try {
+    runtimeConfig = getConfig();
+  } catch (error: unknown) {
+    if (error instanceof ConfigError) {
+      logger.error("Replay recusado - configuração inválida", { issues: error.issues });
+      return res.status(500).json({ error: "Proxy CAPI não configurado" });
+    }
+    throw error;
+  }
+
+  // 🚦 Política admin antes da checagem do token: limita tentativas de adivinhar o ADMIN_TOKEN
+  const rateLimit = await enforceRateLimit(res, runtimeConfig.rateLimit, runtimeConfig.redis, "admin", [
+    remoteAddress(req),
+  ]);
+  if (!rateLimit.allowed) {
+    return res.status(429).json({ error: "Limite de requisições excedido", retry_after: rateLimit.retryAfterSeconds });
+  }
+
+  if (!isAdminRequest(req.headers, runtimeConfig.testMode.adminToken)) {
+    logger.warn("Chamada não autorizada ao replay de eventos");
+    return res.status(401).json({ error: "Não autorizado" });
+  }
+
+  const audit = getAuditLog(runtimeConfig.audit);
+  if (!audit) return res.status(200).json({ status: "disabled" });
+
+  const body = req.body && typeof req.body === "object" ? req.body : {};
+  const ids = stringList(body.ids);
+  const eventIds = stringList(body.event_ids);
+  if (!ids || !eventIds || ids.length + eventIds.length === 0) {
+    return res.status(400).json({ error: "Informe ids e/ou event_ids como listas de strings" });
+  }
+  if (ids.length + eventIds.length > MAX_REPLAY_RECORDS) {
+    return res.status(400).json({ error: `No máximo ${MAX_REPLAY_RECORDS} ids por replay` });
+  }
+  const malformedIds = ids.filter((id) => !AUDIT_ID_PATTERN.test(id));
+  if (malformedIds.length > 0) {
+    return res.status(400).json({ error: "ids fora do formato aud_<timestamp>_<sufixo>", invalid_ids: malformedIds });
+  }
+
+  // ⚠️ Sem destino explícito não há replay: evita reenviar ao pixel real por engano
+  const testEventCode = typeof body.test_event_code === "string" ? body.test_event_code.trim() : undefined;
+  if (testEventCode !== undefined && !TEST_EVENT_CODE_PATTERN.test(testEventCode)) {
+    return res.status(400).json({ error: "test_event_code inválido" });
+  }
+  if (!testEventCode && body.live !== true) {
+    return res.status(400).json({ error: 'Informe test_event_code ou "live": true' });
+  }
+
+  const records: AuditRecord[] = ids.length > 0 ? await audit.findByIds(ids) : [];
+  for (const eventId of eventIds) {
+    records.push(...(await audit.search({ event_id: eventId, limit: MAX_REPLAY_RECORDS })));
+  }
+  // Replays anteriores também estão no log: reenvia o registro original, não a cópia
+  const originals = records.filter((record) => record.source !== "replay" || ids.includes(record.id));
+  const foundIds = new Set(records.map((record) => record.id));
+  const notFound = ids.filter((id) => !foundIds.has(id));
+  if (originals.length === 0) {
+    return res.status(404).json({ error: "Nenhum registro encontrado na auditoria", not_found: ids });
+  }
+
+  const summary = await replayAuditRecords(originals, runtimeConfig, audit, testEventCode);
+  logger.info("Replay de eventos auditados", {
+    records: originals.length,
+    replayed: summary.replayed,
+    skipped: summary.skipped.length,
+    live: !testEventCode,
+    test_event_code: testEventCode,
+  });
+
+  res.status(200).json({
+    status: summary.results.length === 0 ? "skipped" : summary.results.every((result) => result.ok) ? "ok" : "partial",
+    mode: testEventCode ? "test" : "live",
+    replayed: summary.replayed,
+    results: summary.results.map((result) => ({
+      pixel: result.pixel_key,
+      ok: result.ok,
+      http_status: result.http_status,
+      events_received: result.events_received,
+      fbtrace_id: result.fbtrace_id,
+      ...(result.error ? { error: result.error } : {}),
+    })),
+    ...(summary.skipped.length > 0 ? { skipped: summary.skipped } : {}),
+    ...(notFound.length > 0 ? { not_found: notFound } : {}),
+  });
+}
+
+export default withRequestLogging(handler);
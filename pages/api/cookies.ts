@@ -0,0 +1,110 @@
+// ✅ COOKIES PRIMÁRIOS _fbp/_fbc (chamar no carregamento da página, com credentials: "include")
+// O navegador manda os cookies do domínio principal para cap.<domínio>; o proxy devolve
+// _fbp/_fbc (gerando _fbp e montando _fbc a partir do fbclid da URL quando faltam) e os
+// regrava via Set-Cookie com validade longa, junto com o cookie de visitante assinado (external_id).
+// Sem consentimento de anúncios nada é gravado.
+//   POST /api/cookies  { "url": location.href, "consent": { "ads": true } }
+
+import { getConfig, ConfigError, CapiConfig } from "../../lib/config";
+import { resolveConsent } from "../../lib/consent";
+import { browserIdCookies, canSetCookies, resolveBrowserIds, serializeCookie } from "../../lib/cookies";
+import { resolveVisitor } from "../../lib/identity";
+import { ApiRequestBase, ApiResponse, headerValue, remoteAddress } from "../../lib/http";
+import { logger, withRequestLogging } from "../../lib/logger";
+import { enforceRateLimit, rateLimitOrigin } from "../../lib/rate-limit";
+
+interface CookiesRequest extends ApiRequestBase {
+  body?: { url?: unknown; consent?: unknown };
+}
+
+async function handler(req: CookiesRequest, res: ApiResponse) {
+  let runtimeConfig: CapiConfig;
+  try {
+    runtimeConfig = getConfig();
+  } catch (error: unknown) {
+    if (error instanceof ConfigError) {
+      logger.error("Requisição recusada - configuração inválida", { issues: error.issues });
+      return res.status(500).json({ error: "Proxy CAPI não configurado" });
+    }
+    throw error;
+  }
+
+  // Com credentials o navegador exige a origem exata (nunca "*")
+  const origin = headerValue(req.headers.origin) || "";
+  if (runtimeConfig.allowedOrigins.includes(origin)) {
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Access-Control-Allow-Credentials", "true");
+    res.setHeader("Vary", "Origin");
+  }
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Cache-Control", "no-store");
+  res.setHeader("X-Content-Type-Options", "nosniff");
+
+  if (req.method === "OPTIONS") return res.status(200).end();
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const rateLimit = await enforceRateLimit(res, runtimeConfig.rateLimit, runtimeConfig.redis, "frontend", [
+    remoteAddress(req),
+    rateLimitOrigin(origin, runtimeConfig.allowedOrigins),
+    "cookies",
+  ]);
+  if (!rateLimit.allowed) {
+    return res.status(429).json({ error: "Limite de requisições excedido", retry_after: rateLimit.retryAfterSeconds });
+  }
+
+  const body = req.method === "POST" && req.body && typeof req.body === "object" ? req.body : {};
+  const url =
+    (typeof body.url === "string" && body.url) || headerValue(req.query?.url) || headerValue(req.headers.referer);
+
+  // 🍪 _fbp/_fbc identificam o navegador: só com consentimento de anúncios
+  const consent = resolveConsent(
+    undefined,
+    body.consent,
+    req.cookies?.[runtimeConfig.consent.cookieName],
+    runtimeConfig.consent
+  );
+  if (consent.decision !== "forward") {
+    return res.status(200).json({ fbp: null, fbc: null, visitor_token: null, cookies_set: false, consent: consent.decision });
+  }
+
+  const writable = canSetCookies(runtimeConfig.cookies, headerValue(req.headers.host));
+  const cookieConfig = writable ? runtimeConfig.cookies : { ...runtimeConfig.cookies, domain: undefined };
+  if (runtimeConfig.cookies.domain && !writable) {
+    logger.warn("COOKIE_DOMAIN não cobre o host do proxy - cookies não gravados", {
+      cookie_domain: runtimeConfig.cookies.domain,
+      host: headerValue(req.headers.host),
+    });
+  }
+
+  // Chamado no carregamento da página: o clique no anúncio acabou de acontecer
+  const ids = resolveBrowserIds({ cookies: req.cookies, eventSourceUrl: url, clickTimeMs: Date.now() }, cookieConfig);
+  // 🪪 Token do visitante (HttpOnly): a página recebe aqui e repassa no link de checkout (sck=vid_<token>)
+  const visitor = resolveVisitor(req.cookies, runtimeConfig.identity, writable);
+  if (writable) {
+    const cookies = browserIdCookies(ids, cookieConfig);
+    if (visitor.token) cookies.push(serializeCookie(runtimeConfig.identity.cookieName, visitor.token, cookieConfig, true));
+    res.setHeader("Set-Cookie", cookies);
+  }
+
+  logger.debug("Cookies primários resolvidos", {
+    fbp_source: ids.fbpSource,
+    fbc_source: ids.fbcSource,
+    visitor_issued: visitor.issued,
+    cookies_set: writable,
+  });
+
+  res.status(200).json({
+    fbp: ids.fbp || null,
+    fbc: ids.fbc || null,
+    fbp_source: ids.fbpSource || null,
+    fbc_source: ids.fbcSource || null,
+    visitor_token: visitor.token || null,
+    cookies_set: writable,
+    consent: consent.decision,
+  });
+}
+
+export default withRequestLogging(handler);
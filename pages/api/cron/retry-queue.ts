@@ -0,0 +1,65 @@
+// ✅ DRENAGEM DA FILA DE RETRY (Vercel Cron)
+// A Vercel chama esta rota via GET com "Authorization: Bearer <CRON_SECRET>".
+// Também pode ser acionada por POST por qualquer agendador externo com o mesmo token.
+
+import { getConfig, ConfigError, CapiConfig } from "../../../lib/config";
+import { getDedupStore } from "../../../lib/dedup";
+import { drainRetryQueue } from "../../../lib/delivery";
+import { getRetryQueue } from "../../../lib/retry-queue";
+import { safeEqual } from "../../../lib/hash";
+import { ApiRequestBase, ApiResponse, bearerToken, remoteAddress } from "../../../lib/http";
+import { logger, withRequestLogging } from "../../../lib/logger";
+import { enforceRateLimit } from "../../../lib/rate-limit";
+
+// Duração máxima da função na Vercel; a drenagem para de pegar jobs com folga antes do limite
+// (cada envio pode levar até META_TIMEOUT_MS). Jobs que sobrarem ficam para a próxima execução.
+export const config = {
+  maxDuration: 60,
+};
+
+const DRAIN_BUDGET_MS = 50 * 1000;
+
+async function handler(req: ApiRequestBase, res: ApiResponse) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  let runtimeConfig: CapiConfig;
+  try {
+    runtimeConfig = getConfig();
+  } catch (error: unknown) {
+    if (error instanceof ConfigError) {
+      logger.error("Drenagem recusada - configuração inválida", { issues: error.issues });
+      return res.status(500).json({ error: "Proxy CAPI não configurado" });
+    }
+    throw error;
+  }
+
+  // 🚦 Política admin antes da checagem do token: limita tentativas de adivinhar o CRON_SECRET
+  const rateLimit = await enforceRateLimit(res, runtimeConfig.rateLimit, runtimeConfig.redis, "admin", [
+    remoteAddress(req),
+  ]);
+  if (!rateLimit.allowed) {
+    return res.status(429).json({ error: "Limite de requisições excedido", retry_after: rateLimit.retryAfterSeconds });
+  }
+
+  const token = bearerToken(req.headers);
+  if (!runtimeConfig.cronSecret || !token || !safeEqual(token, runtimeConfig.cronSecret)) {
+    logger.warn("Chamada não autorizada à drenagem da fila de retry");
+    return res.status(401).json({ error: "Não autorizado" });
+  }
+
+  const retryQueue = getRetryQueue(runtimeConfig.retry, runtimeConfig.redis);
+  if (!retryQueue) {
+    return res.status(200).json({ status: "disabled" });
+  }
+
+  const startTime = Date.now();
+  const dedupStore = getDedupStore(runtimeConfig.dedup, runtimeConfig.redis);
+  const summary = await drainRetryQueue(retryQueue, runtimeConfig, dedupStore, startTime + DRAIN_BUDGET_MS);
+
+  logger.info("Fila de retry drenada", { ...summary, processing_time_ms: Date.now() - startTime });
+  res.status(200).json({ status: "ok", ...summary, processing_time_ms: Date.now() - startTime });
+}
+
+export default withRequestLogging(handler);
@@ -15,193 +15,119 @@
 // ✅ HOTMART: Webhook processamento completo com transformação para Meta CAPI
 // 🔥 CRÍTICO V8.4: Campo country agora é hasheado em SHA256 (Meta CAPI exigência)
 // 🔥 CRÍTICO V8.5: Unificação hash geográfico - frontend e Hotmart agora consistentes
-
-import * as crypto from "crypto";
-import * as zlib from "zlib";
-
-// Tipos para requisição e resposta (compatível com Express/Node.js)
-interface UserData {
-  external_id?: string;
-  fbp?: string;
-  fbc?: string;
-  ct?: string;  // ✅ CORRETO: Meta CAPI usa 'ct' para city
-  st?: string;  // ✅ CORRETO: Meta CAPI usa 'st' para state  
-  zp?: string;  // ✅ CORRETO: Meta CAPI usa 'zp' para postal
-  country?: string;  // ✅ ADICIONADO: Campo country usado no código (linhas 663-672)
-  // ❌ REMOVIDO: Campos de dados pessoais (em, ph, fn) para eliminar vazamento de PII
-  [key: string]: unknown;
-}
-
-interface EventData {
-  event_id?: string;
-  event_name?: string;
-  event_time?: number | string;
-  event_source_url?: string;
-  action_source?: string;
-  session_id?: string;
-  user_data?: UserData;
-  custom_data?: Record<string, unknown>;
-  [key: string]: unknown;
-}
-
-// ==================== INTERFACES HOTMART (CORRIGIDAS) ====================
-interface HotmartProduct {
-  id: number;
-  name: string;
-  ucode?: string;
-}
-
-interface HotmartWebhookData {
-  product: HotmartProduct;
-  buyer: {
-    email: string;
-    name?: string;
-    checkout_phone?: string;
-    document?: string;
-    address?: {
-      city?: string;
-      country_iso?: string;
-      state?: string;
-      zipcode?: string;
-    };
-  };
-  checkout_country?: {
-    name?: string;
-    iso?: string;
-  };
-  affiliates?: Array<{
-    affiliate_code?: string;
-    [key: string]: unknown;
-  }>;
-  purchase: {
-    transaction: string;
-    price: { value: number; currency_value: string };
-    status: string;
-  };
-}
-
-interface HotmartWebhookPayload {
-  id: string;
-  creation_date: number;
-  event: string;
-  version: string;
-  data: HotmartWebhookData;
-}
-
-const transformHotmartToMeta = (hotmartData: HotmartWebhookData, webhookPayload: HotmartWebhookPayload): EventData => {
-  const { buyer, product, purchase, checkout_country } = hotmartData;
-
-  // ✅ VALIDAÇÃO: Verificar se dados geográficos estão presentes
-  const isValidString = (str: string) => str && str.trim().length > 0;
-
-  // Priorizar checkout_country.iso sobre checkout_country.name para usar códigos ISO 3166-1 alpha-2
-    const countryName = checkout_country?.iso || buyer.address?.country_iso || checkout_country?.name;
-
-  // ✅ CORREÇÃO CRÍTICA: Aplicar hash SHA256 aos dados geográficos apenas (SEM PII)
-  // Meta CAPI permite dados geográficos hasheados, mas PII deve ser evitado
-  return {
-    event_name: "Purchase",
-    event_time: Math.floor(webhookPayload.creation_date / 1000),
-    action_source: "website",
-    user_data: {
-      // ❌ REMOVIDO: Dados pessoais (email, phone, name) para eliminar vazamento de PII
-      // ✅ MANTIDO: Apenas dados geográficos hasheados (permitidos pelo Meta CAPI)
-      ct: buyer.address?.city && isValidString(buyer.address.city) ? hashSHA256(buyer.address.city) : undefined,
-      st: buyer.address?.state && isValidString(buyer.address.state) ? hashSHA256(buyer.address.state) : undefined,
-      zp: buyer.address?.zipcode && isValidString(buyer.address.zipcode) ? hashSHA256(buyer.address.zipcode) : undefined,
-      // ✅ CORREÇÃO CRÍTICA: Usar countryName calculado (linha 98) no user_data
-      country: countryName && isValidString(countryName) ? hashSHA256(countryName) : undefined,
-    },
-    custom_data: {
-      currency: purchase.price.currency_value,
-      value: purchase.price.value,
-      content_name: product.name,
-      content_ids: [product.id.toString()],
-      content_type: "product",
-      order_id: purchase.transaction,
-    },
-    event_source_url: "https://hotmart.com",
-    event_id: `hotmart_${purchase.transaction}_${Date.now()}`,
-  };
+// 🔐 SEGURANÇA: Webhooks Hotmart só são aceitos com X-HOTMART-HOTTOK válido (e HMAC opcional)
+// 🔐 SEGURANÇA: Pixel, token e origens permitidas vêm de variáveis de ambiente (lib/config)
+// 🎯 MULTI-PIXEL: Regras de roteamento com fan-out e resultado por pixel na resposta
+// 🔁 RETRY: Falhas transitórias vão para a fila; deduplicação só é mantida após aceite da Meta
+// 🔐 PII: em/ph/fn/ln voltam apenas com opt-in por fonte, normalizados e hasheados no servidor
+// 🍪 LGPD: Consentimento por evento decide entre enviar, enviar sem identificadores do navegador ou descartar
+// 🧪 VALIDAÇÃO: Cada evento do frontend é validado/reparado isoladamente - um evento ruim não derruba o lote
+// 🧪 TESTE: test_event_code (Test Events da Meta) e dry-run que devolve o payload sem enviar
+// 📦 LOTES: Coalescência opcional por pixel (até 1000 eventos por chamada) com resposta 202
+// 🚦 RATE LIMIT: Token bucket por IP, origem e pixel, com políticas separadas para frontend, Hotmart e admin
+// 🤖 BOTS: Crawlers, monitores e headless filtrados por user-agent, faixas de IP, headers e taxa por external_id
+// 🍪 COOKIES: _fbp/_fbc primários lidos, gerados e regravados via Set-Cookie (fora do limite de 7 dias do ITP)
+// 🪪 IDENTIDADE: external_id estável (frontend, cookie de visitante assinado, session_id) e compra Hotmart ligada ao visitante via sck/src
+// 🌎 GEO: ct/st/zp/country ausentes preenchidos pelo IP (headers Vercel/Cloudflare ou banco MaxMind local), normalizados antes do hash
+// 🌎 GEO: ct/st/zp/country normalizados (UF, ISO alpha-2, CEP só dígitos) antes do hash - frontend e Hotmart geram o mesmo hash
+// 🔌 FONTES: Hotmart, Kiwify, Eduzz, Stripe Checkout e webhooks genéricos (JSON path) como adaptadores em /api/webhooks/<fonte>
+// 📊 GA4: destino opcional via Measurement Protocol (client_id do _ga, consentimento respeitado), com status próprio na resposta
+// 🎵 TIKTOK: destino opcional via Events API com o mesmo event_id, ttclid da URL e cookie _ttp (Lead → SubmitForm, Purchase → CompletePayment)
+// 📈 OBSERVABILIDADE: /api/health (liveness, readiness e sanidade da config) e /api/metrics (Prometheus, com token)
+// 🔎 AUDITORIA: payload final + resposta da Meta (fbtrace_id) em log append-only, com busca e replay em /api/admin
+
+import { readRawBody, BodyTooLargeError, RawBodySource, ApiRequestBase, ApiResponse, headerValue } from "../../lib/http";
+import { getConfig, ConfigError, CapiConfig } from "../../lib/config";
+import type { EventData } from "../../lib/types";
+import { groupEventsByPixel, resolvePixels } from "../../lib/routing";
+import { aggregateStatus, dryRunPixels, META_TIMEOUT_MS, summarizeEventOutcomes } from "../../lib/meta";
+import { deliverToPixels } from "../../lib/delivery";
+import {
+  clientIdFromGaCookie,
+  deliverToGa4,
+  dryRunGa4,
+  Ga4DeliveryResult,
+  Ga4EventInput,
+  ga4SessionCookieName,
+  isGa4Enabled,
+  sessionIdFromGaCookie,
+} from "../../lib/destinations/ga4";
+import {
+  deliverToTiktok,
+  dryRunTiktok,
+  isTiktokEnabled,
+  TiktokDeliveryResult,
+  TiktokEventInput,
+  TTP_COOKIE,
+} from "../../lib/destinations/tiktok";
+import { getRetryQueue } from "../../lib/retry-queue";
+import { getAuditLog } from "../../lib/audit";
+import { hashIdentity, isPiiEnabled } from "../../lib/pii";
+import {
+  BROWSER_IDENTIFIERS,
+  ConsentDecision,
+  ConsentResult,
+  ConsentSignalSource,
+  dataProcessingOptions,
+  resolveConsent,
+  summarizeConsent,
+} from "../../lib/consent";
+import { getDedupStore, isDuplicateEvent } from "../../lib/dedup";
+import { hashSHA256 } from "../../lib/hash";
+import { logger, withRequestLogging } from "../../lib/logger";
+import { validateEvents } from "../../lib/validation";
+import { isAdminRequest, resolveRequestMode } from "../../lib/test-mode";
+import { enforceRateLimit, rateLimitOrigin, RateLimitPolicyName } from "../../lib/rate-limit";
+import { filterBotEvents, profileRequest } from "../../lib/bot-filter";
+import {
+  BrowserIds,
+  FBC_COOKIE,
+  FBP_COOKIE,
+  browserIdCookies,
+  buildFbc,
+  canSetCookies,
+  isValidFbc,
+  isValidFbp,
+  resolveBrowserIds,
+  serializeCookie,
+} from "../../lib/cookies";
+import { GEO_FIELDS, hashGeoFields, lookupGeo } from "../../lib/geo";
+import {
+  ExternalIdSource,
+  resolveExternalId,
+  resolveVisitor,
+  summarizeIdentity,
+} from "../../lib/identity";
+import { getEventBatcher } from "../../lib/batcher";
+import { recordClientIp, recordEvents } from "../../lib/metrics";
+import { HotmartWebhookPayload, isHotmartWebhook } from "../../lib/hotmart";
+import { verifyHotmartWebhook } from "../../lib/hotmart-auth";
+import { hotmartSource } from "../../lib/sources";
+import { handleSourceWebhook } from "../../lib/sources/webhook";
+
+// ✅ Corpo bruto é lido manualmente para permitir validação HMAC sobre os bytes originais
+export const config = {
+  api: {
+    bodyParser: false,
+  },
 };
 
-interface ApiRequest {
-  method?: string;
+interface ApiRequest extends ApiRequestBase, RawBodySource {
   body?: {
     data?: EventData[];
     [key: string]: unknown;
   } | HotmartWebhookPayload;
-  headers: Record<string, string | string[] | undefined>;
-  socket?: {
-    remoteAddress?: string;
-  };
-  cookies?: Record<string, string>;
-}
-
-interface ApiResponse {
-  status(code: number): ApiResponse;
-  json(data: unknown): void;
-  end(): void;
-  setHeader(name: string, value: string): void;
 }
 
-const PIXEL_ID = "765087775987515";
-const ACCESS_TOKEN = "EAAQfmxkTTZCcBPHGbA2ojC29bVbNPa6GM3nxMxsZC29ijBmuyexVifaGnrjFZBZBS6LEkaR29X3tc5TWn4SHHffeXiPvexZAYKP5mTMoYGx5AoVYaluaqBTtiKIjWALxuMZAPVcBk1PuYCb0nJfhpzAezh018LU3cT45vuEflMicoQEHHk3H5YKNVAPaUZC6yzhcQZDZD";
-const META_URL = `https://graph.facebook.com/v19.0/${PIXEL_ID}/events`;
-
-// ✅ SISTEMA DE DEDUPLICAÇÃO MELHORADO
-const eventCache = new Map<string, number>();
-const CACHE_TTL = 6 * 60 * 60 * 1000; // 6 horas (otimizado para reduzir eventos fantasma)
-const MAX_CACHE_SIZE = 50000; // Aumentado para suportar mais eventos
-
-function isDuplicateEvent(eventId: string): boolean {
-  const now = Date.now();
-
-  // Limpeza automática de eventos expirados (sem for...of)
-  let cleanedCount = 0;
-  eventCache.forEach((timestamp, id) => {
-    if (now - timestamp > CACHE_TTL) {
-      eventCache.delete(id);
-      cleanedCount++;
-    }
-  });
-
-  if (cleanedCount > 0) {
-    console.log(`🧹 Cache limpo: ${cleanedCount} eventos expirados removidos (TTL: 6h)`);
-  }
-
-  // Verificar se é duplicata
-  if (eventCache.has(eventId)) {
-    const lastSeen = eventCache.get(eventId);
-    const timeDiff = now - (lastSeen || 0);
-    console.warn(`🚫 Evento duplicado bloqueado: ${eventId} (última ocorrência: ${Math.round(timeDiff/1000)}s atrás)`);
-    return true;
+// ✅ FAIL-FAST: Validar configuração no cold start para o erro aparecer logo no deploy
+try {
+  getConfig();
+} catch (error: unknown) {
+  if (error instanceof ConfigError) {
+    logger.error("CRÍTICO: Proxy CAPI sem configuração válida", { issues: error.issues });
+  } else {
+    throw error;
   }
-
-  // Controle de tamanho do cache
-  if (eventCache.size >= MAX_CACHE_SIZE) {
-    // Remove 10% do cache quando atingir o limite para melhor performance
-    const itemsToRemove = Math.floor(MAX_CACHE_SIZE * 0.1);
-    let removedCount = 0;
-    
-    const eventIds = Array.from(eventCache.keys());
-    for (let i = 0; i < itemsToRemove && i < eventIds.length; i++) {
-      eventCache.delete(eventIds[i]);
-      removedCount++;
-    }
-    
-    console.log(`🗑️ Cache overflow: ${removedCount} eventos mais antigos removidos (${eventCache.size}/${MAX_CACHE_SIZE})`);
-  }
-
-  // Adicionar ao cache
-  eventCache.set(eventId, now);
-  console.log(`✅ Evento adicionado ao cache de deduplicação: ${eventId} (cache size: ${eventCache.size})`);
-  return false;
-}
-
-// ✅ REINTRODUZIDO: A função hashSHA256 é necessária como fallback para gerar event_id no servidor.
-function hashSHA256(input: string): string {
-  return crypto.createHash("sha256").update(input).digest("hex");
 }
 
 // ✅ IPv6 INTELIGENTE: Detecção e validação de IP com prioridade IPv6
@@ -286,17 +212,17 @@ function getClientIP(
   // ✅ PRIORIDADE IPv6: Garantir que a Meta reconheça corretamente o IPv6
   if (validIPv6.length > 0) {
     const selectedIP = validIPv6[0];
-    console.log("🌐 IPv6 detectado (prioridade para Meta CAPI):", selectedIP);
+    logger.debug("IPv6 detectado (prioridade para Meta CAPI)", { ip: selectedIP });
     return { ip: selectedIP, type: "IPv6" };
   }
   if (validIPv4.length > 0) {
     const selectedIP = validIPv4[0];
-    console.log("🌐 IPv4 detectado (fallback):", selectedIP);
+    logger.debug("IPv4 detectado (fallback)", { ip: selectedIP });
     return { ip: selectedIP, type: "IPv4" };
   }
 
   const fallbackIP = candidateIPs[0] || "unknown";
-  console.warn("⚠️ IP não identificado, usando fallback:", fallbackIP);
+  logger.warn("IP não identificado, usando fallback", { ip: fallbackIP, candidates: candidateIPs.length });
   return { ip: fallbackIP, type: "unknown" };
 }
 
@@ -325,11 +251,7 @@ function formatIPForMeta(ip: string): string {
     // Remove colchetes se presentes e garante formato limpo
     const cleanIP = ip.replace(/^\[|\]$/g, '');
     
-    console.log('🌐 IPv6 formatado para Meta:', {
-      original: ip,
-      formatted: cleanIP,
-      is_native_ipv6: true
-    });
+    logger.debug("IPv6 formatado para Meta", { ip: cleanIP, is_native_ipv6: true });
     
     return cleanIP;
   }
@@ -338,11 +260,7 @@ function formatIPForMeta(ip: string): string {
     // Para IPv4, a Meta recomenda conversão para IPv6-mapped
     // Formato IPv4-mapped IPv6: ::ffff:192.168.1.1
     const ipv6Mapped = `::ffff:${ip}`;
-    console.log('🔄 IPv4 convertido para IPv6-mapped:', {
-      original_ipv4: ip,
-      ipv6_mapped: ipv6Mapped,
-      reason: 'Meta prefere IPv6 sobre IPv4'
-    });
+    logger.debug("IPv4 convertido para IPv6-mapped", { ip: ipv6Mapped, reason: "Meta prefere IPv6 sobre IPv4" });
     return ipv6Mapped;
   }
   
@@ -350,9 +268,10 @@ function formatIPForMeta(ip: string): string {
 }
 
 // ✅ CORREÇÃO CRÍTICA: Processamento FBC conforme documentação Meta oficial
-function processFbc(fbc: string): string | null {
+// clickTimeMs: horário do evento - usado quando só chega o fbclid (a Meta quer o horário do clique)
+function processFbc(fbc: string, clickTimeMs: number): string | null {
   if (!fbc || typeof fbc !== "string") {
-    console.warn("⚠️ FBC inválido:", fbc);
+    logger.warn("FBC inválido", { fbc_type: typeof fbc });
     return null;
   }
 
@@ -367,7 +286,7 @@ function processFbc(fbc: string): string | null {
   // ✅ REGEX MAIS RIGOROSO: fbclid deve ter pelo menos 15 caracteres
   const fbcPattern = /^fb\.[0-9]+\.[0-9]{13}\.[A-Za-z0-9_-]{15,}$/;
   if (fbcPattern.test(fbc)) {
-    console.log("✅ FBC válido (formato padrão Meta):", fbc.substring(0, 30) + '...');
+    logger.debug("FBC válido (formato padrão Meta)", { fbc });
     return fbc; // ✅ PRESERVA valor original sem modificações
   }
 
@@ -380,14 +299,13 @@ function processFbc(fbc: string): string | null {
   if (fbclidPattern.test(fbc)) {
     // ✅ VERIFICAÇÃO ANTI-MODIFICAÇÃO: Garantir que não houve alteração de case
     if (fbc !== originalFbc) {
-      console.error("❌ CRÍTICO: fbclid foi modificado durante processamento!");
+      logger.error("CRÍTICO: fbclid foi modificado durante processamento");
       return null;
     }
     
-    // ✅ CORREÇÃO CRÍTICA: Preservar timestamp original se possível
-    // Meta documentação: "do not apply any modifications before using"
-    const envelopedFbc = `fb.1.${Date.now()}.${fbc}`;
-    console.log("✅ fbclid envelopado no formato Meta:", envelopedFbc.substring(0, 30) + '...');
+    // ✅ Horário do evento, não Date.now(): lotes e retries chegam depois do clique
+    const envelopedFbc = buildFbc(fbc, clickTimeMs);
+    logger.debug("fbclid envelopado no formato Meta", { fbc: envelopedFbc });
     return envelopedFbc;
   }
 
@@ -395,79 +313,71 @@ function processFbc(fbc: string): string | null {
   if (fbc.startsWith("fbclid=")) {
     // ✅ CRÍTICO: NÃO remover prefixo - Meta pode precisar do contexto completo
     // Meta documentação: "do not apply any modifications before using"
-    console.log("✅ FBC com prefixo fbclid= preservado integralmente:", fbc);
+    logger.debug("FBC com prefixo fbclid= preservado integralmente", { fbc });
     return fbc; // ✅ PRESERVA valor COMPLETO sem modificações
   }
 
   // ✅ CRÍTICO: Para formatos não reconhecidos, tentar envelope se parecer com fbclid
   // Meta documentação: "do not apply any modifications before using"
   if (fbc.length >= 10 && /^[A-Za-z0-9_-]+$/.test(fbc)) {
-    const envelopedFbc = `fb.1.${Date.now()}.${fbc}`;
-    console.log("✅ FBC formato não reconhecido - envelopando:", envelopedFbc);
+    const envelopedFbc = buildFbc(fbc, clickTimeMs);
+    logger.debug("FBC formato não reconhecido - envelopando", { fbc: envelopedFbc });
     return envelopedFbc;
   }
 
-  console.warn("⚠️ FBC inválido - não foi possível processar:", fbc);
+  logger.warn("FBC inválido - não foi possível processar", { fbc, length: fbc.length });
   return null;
 }
 
-const RATE_LIMIT = 100; // Aumentado para suportar picos de tráfego
-const rateLimitMap = new Map<string, number[]>();
-
-function rateLimit(ip: string): boolean {
-  const now = Date.now();
-  const windowMs = 60000;
-  if (!rateLimitMap.has(ip)) rateLimitMap.set(ip, []);
-  const timestamps = (rateLimitMap.get(ip) || []).filter((t) => now - t < windowMs);
-  if (timestamps.length >= RATE_LIMIT) return false;
-  timestamps.push(now);
-  rateLimitMap.set(ip, timestamps);
-  if (rateLimitMap.size > 1000) {
-    const oldest = rateLimitMap.keys().next();
-    if (!oldest.done) rateLimitMap.delete(oldest.value);
+// 🚦 Política de rate limit: servidores da Hotmart, admin (ADMIN_TOKEN válido) ou navegador.
+// A chave inclui o pixel de destino para um site barulhento não esgotar o balde dos outros.
+function rateLimitTarget(
+  req: ApiRequest,
+  rawBody: Buffer,
+  ip: string,
+  origin: string,
+  config: CapiConfig
+): { policy: RateLimitPolicyName; keyParts: string[] } {
+  if (isAdminRequest(req.headers, config.testMode.adminToken)) {
+    return { policy: "admin", keyParts: [ip] };
   }
-  return true;
+  // Só o formato não basta: sem hottok (e HMAC, se configurado) válido a requisição cai na política do frontend
+  if (isHotmartWebhook(req.body) && verifyHotmartWebhook(req.headers, rawBody, config.hotmart).ok) {
+    const productId = req.body.data?.product?.id;
+    const targets = resolvePixels({}, { source: "hotmart", productId, hotmartProductId: productId }, config);
+    return { policy: "hotmart", keyParts: [ip, targets.map((target) => target.key).join("+")] };
+  }
+  const allowedOrigin = rateLimitOrigin(origin, config.allowedOrigins);
+  const targets = resolvePixels({ event_source_url: allowedOrigin }, { origin: allowedOrigin }, config);
+  return { policy: "frontend", keyParts: [ip, allowedOrigin, targets.map((target) => target.key).join("+")] };
 }
 
-// ==================== FUNÇÕES HOTMART (CORRIGIDAS) ====================
-const isHotmartWebhook = (body: any): body is HotmartWebhookPayload => {
-  return body && 
-    typeof body.id === "string" && 
-    typeof body.event === "string" && 
-    body.data && 
-    body.data.product && 
-    body.data.buyer && 
-    body.data.purchase;
-};
-
-export default async function handler(req: ApiRequest, res: ApiResponse) {
+async function handler(req: ApiRequest, res: ApiResponse) {
   const startTime = Date.now();
 
+  let runtimeConfig: CapiConfig;
+  try {
+    runtimeConfig = getConfig();
+  } catch (error: unknown) {
+    if (error instanceof ConfigError) {
+      logger.error("Requisição recusada - configuração inválida", { issues: error.issues });
+      return res.status(500).json({ error: "Proxy CAPI não configurado" });
+    }
+    throw error;
+  }
+
   const { ip, type: ipType } = getClientIP(req);
+  recordClientIp(ipType);
   const userAgent = (req.headers["user-agent"] as string) || "";
   const origin = (req.headers.origin as string) || "";
 
-  const ALLOWED_ORIGINS = [
-    "https://www.digitalpaisagismo.com",
-    "https://digitalpaisagismo.com",
-    "https://cap.digitalpaisagismo.com",
-    "https://atendimento.digitalpaisagismo.com",
-    "https://consultoria.digitalpaisagismo.com",
-    "https://www.consultoria.digitalpaisagismo.com",
-    "https://cap.consultoria.digitalpaisagismo.com",
-    "https://projeto.digitalpaisagismo.com",
-    "https://www.projeto.digitalpaisagismo.com",
-    "http://localhost:3000",
-    "http://localhost:8080",
-    "http://localhost:8081",
-  ];
-
   res.setHeader(
     "Access-Control-Allow-Origin",
-    ALLOWED_ORIGINS.includes(origin) ? origin : "https://www.digitalpaisagismo.com"
+    runtimeConfig.allowedOrigins.includes(origin) ? origin : runtimeConfig.allowedOrigins[0]
   );
   res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, X-Requested-With");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, X-Requested-With, X-Test-Event-Code, X-Dry-Run");
+  res.setHeader("Access-Control-Expose-Headers", "RateLimit-Policy, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After, X-Request-Id");
   res.setHeader("Access-Control-Allow-Credentials", "true");
   res.setHeader("X-Content-Type-Options", "nosniff");
   res.setHeader("X-Frame-Options", "DENY");
@@ -477,69 +387,57 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
 
   if (req.method === "OPTIONS") return res.status(200).end();
   if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
-  if (!rateLimit(ip)) return res.status(429).json({ error: "Limite de requisições excedido", retry_after: 60 });
 
+  let rawBody: Buffer;
   try {
-    // ==================== PROCESSAMENTO HOTMART (CORRIGIDO) ====================
-    if (isHotmartWebhook(req.body)) {
-      console.log("🔥 Webhook Hotmart detectado:", { event: req.body.event, id: req.body.id });
-      
-      if (req.body.event === "PURCHASE_APPROVED") {
-        const transformedEvent = transformHotmartToMeta(req.body.data, req.body);
-        
-        // Verificar duplicata
-        if (isDuplicateEvent(transformedEvent.event_id!)) {
-          console.log("⚠️ Evento Hotmart duplicado ignorado:", transformedEvent.event_id);
-          return res.status(200).json({ status: "duplicate_ignored", event_id: transformedEvent.event_id });
-        }
-
-        // Preparar payload para Meta CAPI
-        const payload = {
-          data: [transformedEvent],
-          access_token: ACCESS_TOKEN,
-        };
-
-        const payloadString = JSON.stringify(payload);
-        const shouldCompress = payloadString.length > 2048;
-        const finalPayload = shouldCompress ? zlib.gzipSync(payloadString) : payloadString;
+    rawBody = await readRawBody(req);
+  } catch (error: unknown) {
+    if (error instanceof BodyTooLargeError) {
+      return res.status(413).json({ error: "Payload muito grande" });
+    }
+    logger.error("Erro ao ler corpo da requisição", { error });
+    return res.status(400).json({ error: "Não foi possível ler o corpo da requisição" });
+  }
 
-        const headers: Record<string, string> = {
-          "Content-Type": "application/json",
-          "User-Agent": "DigitalPaisagismo-CAPI/8.3-Hotmart",
-        };
+  let malformedJson = false;
+  try {
+    req.body = rawBody.length > 0 ? JSON.parse(rawBody.toString("utf8")) : {};
+  } catch {
+    req.body = {};
+    malformedJson = true;
+  }
 
-        if (shouldCompress) {
-          headers["Content-Encoding"] = "gzip";
-        }
+  // 🚦 Rate limit antes de qualquer validação: JSON malformado e tokens errados também consomem fichas
+  const { policy, keyParts } = rateLimitTarget(req, rawBody, ip, origin, runtimeConfig);
+  const rateLimit = await enforceRateLimit(res, runtimeConfig.rateLimit, runtimeConfig.redis, policy, keyParts);
+  if (!rateLimit.allowed) {
+    return res.status(429).json({ error: "Limite de requisições excedido", retry_after: rateLimit.retryAfterSeconds });
+  }
 
-        console.log("📤 Enviando evento Hotmart para Meta CAPI:", {
-          event_id: transformedEvent.event_id,
-          // ❌ REMOVIDO: buyer_email_hash para eliminar vazamento de PII
-          transaction: req.body.data.purchase.transaction,
-          value: req.body.data.purchase.price.value,
-          currency: req.body.data.purchase.price.currency_value,
-        });
+  if (malformedJson) return res.status(400).json({ error: "Payload inválido - JSON malformado" });
 
-        const response = await fetch(META_URL, {
-          method: "POST",
-          headers,
-          body: shouldCompress ? new Uint8Array(finalPayload as Buffer) : finalPayload as string,
-          signal: AbortSignal.timeout(15000),
-        });
+  // 🧪 Headers de teste exigem ADMIN_TOKEN: recusar é melhor que mandar para produção em silêncio
+  const mode = resolveRequestMode(req.headers, runtimeConfig.testMode);
+  if (mode.rejected) {
+    logger.warn("Modo de teste recusado", { reason: mode.rejected });
+    return res.status(401).json({ error: "Modo de teste não autorizado", reason: mode.rejected });
+  }
 
-        const responseData = await response.json();
+  const dedupStore = getDedupStore(runtimeConfig.dedup, runtimeConfig.redis);
+  const retryQueue = getRetryQueue(runtimeConfig.retry, runtimeConfig.redis);
+  const audit = getAuditLog(runtimeConfig.audit);
 
-        if (response.ok) {
-          console.log("✅ Evento Hotmart enviado com sucesso para Meta CAPI");
-          return res.status(200).json({ status: "success", meta_response: responseData });
-        } else {
-          console.error("❌ Erro ao enviar evento Hotmart para Meta CAPI:", responseData);
-          return res.status(500).json({ error: "Erro ao processar webhook Hotmart", details: responseData });
-        }
-      } else {
-        console.log("ℹ️ Evento Hotmart ignorado (não é PURCHASE_APPROVED):", req.body.event);
-        return res.status(200).json({ status: "ignored", event: req.body.event });
-      }
+  try {
+    // ==================== PROCESSAMENTO HOTMART (CORRIGIDO) ====================
+    // URL já cadastrada nos produtos Hotmart: segue aceita aqui, pelo mesmo pipeline de /api/webhooks/<fonte>
+    if (hotmartSource.detect(req.body)) {
+      logger.info("Webhook Hotmart detectado", { event: req.body.event, webhook_id: req.body.id });
+      return await handleSourceWebhook(
+        hotmartSource,
+        req.body,
+        { request: { headers: req.headers, query: req.query, rawBody }, ip, userAgent, config: runtimeConfig, mode, dedupStore, retryQueue, audit },
+        res
+      );
     }
 
     // ==================== PROCESSAMENTO FRONTEND (ORIGINAL) ====================
@@ -547,88 +445,209 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
       return res.status(400).json({ error: "Payload inválido - campo 'data' obrigatório" });
     }
 
-    // 🛡️ FILTRO DE DEDUPLICAÇÃO MELHORADO: Verificar duplicatas antes do processamento
+    // 🧪 Validação por evento: repara o que dá (tipos, moeda, event_time) e descarta só o inválido
     const originalCount = req.body.data.length;
+    const { events: validEvents, summary: validationInfo } = validateEvents(req.body.data, runtimeConfig.validation);
+    recordEvents("received", "frontend", req.body.data);
+    recordEvents(
+      "filtered",
+      "frontend",
+      validationInfo.events.filter((result) => result.status === "rejected").map((result) => req.body.data[result.index]),
+      "validation"
+    );
+
+    if (validationInfo.rejected > 0 || validationInfo.repaired > 0) {
+      logger.warn("Eventos do frontend com problemas de validação", {
+        rejected: validationInfo.rejected,
+        repaired: validationInfo.repaired,
+        original_events: originalCount,
+        issues: validationInfo.events.filter((result) => result.issues.length > 0).slice(0, 5),
+      });
+    }
+
+    if (validEvents.length === 0) {
+      return res.status(400).json({
+        error: "Nenhum evento válido no payload",
+        original_count: originalCount,
+        validation_info: validationInfo,
+      });
+    }
+
+    // 🍪 COOKIES: só grava se COOKIE_DOMAIN cobrir o host do proxy (senão o navegador recusa)
+    const cookieConfig = canSetCookies(runtimeConfig.cookies, headerValue(req.headers.host))
+      ? runtimeConfig.cookies
+      : { ...runtimeConfig.cookies, domain: undefined };
+    const responseCookies: string[] = [];
+    const consentCookie = req.cookies?.[runtimeConfig.consent.cookieName];
+    const bodyConsent = (req.body as { consent?: unknown }).consent;
+
+    // 🪪 IDENTIDADE: external_id estável resolvido antes do event_id de fallback (que depende dele).
+    // Cookie de visitante só com consentimento de anúncios do evento.
+    const adsConsent = (event: EventData) =>
+      resolveConsent(event.consent, bodyConsent, consentCookie, runtimeConfig.consent).decision === "forward";
+    const visitor = resolveVisitor(
+      req.cookies,
+      runtimeConfig.identity,
+      !!cookieConfig.domain && !mode.dryRun && validEvents.some(adsConsent)
+    );
+    if (visitor.issued) {
+      responseCookies.push(serializeCookie(runtimeConfig.identity.cookieName, visitor.token, cookieConfig, true));
+    }
+    const identitySources = new Map<EventData, ExternalIdSource>();
+    validEvents.forEach((event: EventData) => {
+      const identity = resolveExternalId(event, visitor, req.cookies, runtimeConfig.identity, adsConsent(event));
+      // 🪪 external_id do frontend só segue quando IDENTITY_SOURCES o escolheu
+      if (identity.source !== "frontend" && event.user_data) delete event.user_data.external_id;
+      if (identity.externalId) event.user_data = { ...(event.user_data || {}), external_id: identity.externalId };
+      identitySources.set(event, identity.source);
+    });
+
+    // 🛡️ FILTRO DE DEDUPLICAÇÃO MELHORADO: Verificar duplicatas antes do processamento
     // ✅ CORRIGIDO: Priorizar event_id do frontend para consistência Pixel/CAPI
-    const eventsWithIds = req.body.data.map((event: EventData) => {
+    const eventsWithIds = validEvents.map((event: EventData) => {
       if (!event.event_id) {
         // Gerar event_id determinístico apenas como fallback
         const eventName = event.event_name || "Lead";
         const eventTime = event.event_time && !isNaN(Number(event.event_time)) ? Math.floor(Number(event.event_time)) : Math.floor(Date.now() / 1000);
         const externalId = event.user_data?.external_id || "no_ext_id";
-        const eventSourceUrl = event.event_source_url || origin || (req.headers.referer as string) || "https://www.digitalpaisagismo.com";
+        const eventSourceUrl = event.event_source_url || origin || (req.headers.referer as string) || runtimeConfig.defaultEventSourceUrl;
         const eventData = `${eventName}_${eventTime}_${externalId}_${eventSourceUrl}`;
         event.event_id = `evt_${hashSHA256(eventData).substring(0, 16)}`;
-        console.warn("⚠️ Event_id gerado no servidor (fallback) - deve vir do frontend:", event.event_id);
+        logger.warn("Event_id gerado no servidor (fallback) - deve vir do frontend", { event_id: event.event_id });
       } else {
-        console.log("✅ Event_id recebido do frontend (consistência Pixel/CAPI):", event.event_id);
+        logger.debug("Event_id recebido do frontend (consistência Pixel/CAPI)", { event_id: event.event_id });
       }
       return event;
     });
+    const identityInfo = summarizeIdentity(
+      eventsWithIds.map((event: EventData) => ({ event_id: event.event_id, external_id_source: identitySources.get(event) })),
+      visitor
+    );
     
-    // Segundo passo: filtrar duplicatas usando os event_ids
-    const filteredData = eventsWithIds.filter((event: EventData) => {
-      return event.event_id && !isDuplicateEvent(event.event_id);
+    // 🍪 CONSENTIMENTO: decidido antes da deduplicação (evento descartado não reserva o event_id)
+    const consentByEvent = new Map<string, ConsentResult>();
+    const consentDecisions: Array<{ event_id: string; decision: ConsentDecision; source: ConsentSignalSource }> = [];
+    const consentedEvents = eventsWithIds.filter((event: EventData) => {
+      const consent = resolveConsent(event.consent, bodyConsent, consentCookie, runtimeConfig.consent);
+      consentByEvent.set(event.event_id, consent);
+      consentDecisions.push({ event_id: event.event_id, decision: consent.decision, source: consent.source });
+      return consent.decision !== "drop";
     });
+    const consentInfo = summarizeConsent(consentDecisions, runtimeConfig.consent);
+    recordEvents(
+      "filtered",
+      "frontend",
+      eventsWithIds.filter((event: EventData) => !consentedEvents.includes(event)),
+      "consent"
+    );
+
+    if (consentInfo.dropped > 0) {
+      logger.info("Eventos descartados por falta de consentimento", {
+        dropped: consentInfo.dropped,
+        original_events: originalCount,
+      });
+    }
+
+    if (consentedEvents.length === 0) {
+      return res.status(200).json({
+        message: "Todos os eventos foram descartados por falta de consentimento",
+        original_count: originalCount,
+        identity_info: identityInfo,
+        consent_info: consentInfo,
+        validation_info: validationInfo,
+      });
+    }
+
+    // 🤖 BOTS: crawlers e automação saem (ou são marcados) antes de reservar o event_id na deduplicação
+    const botFilter = filterBotEvents(
+      consentedEvents,
+      profileRequest(req.headers, ip, userAgent),
+      req.cookies?.[FBP_COOKIE],
+      runtimeConfig.botFilter
+    );
+    const humanEvents = botFilter.events;
+    const botsFiltered = botFilter.summary.filtered;
+    const botFilterInfo = botFilter.summary;
+    recordEvents("filtered", "frontend", consentedEvents.filter((event: EventData) => !humanEvents.includes(event)), "bot");
+
+    if (botFilterInfo.events.length > 0) {
+      logger.info("Tráfego de bot detectado", {
+        mode: botFilterInfo.mode,
+        filtered: botsFiltered,
+        tagged: botFilterInfo.tagged,
+        signals: botFilterInfo.signals,
+      });
+    }
+
+    if (humanEvents.length === 0) {
+      return res.status(200).json({
+        message: "Todos os eventos foram filtrados como tráfego de bot",
+        bots_filtered: botsFiltered,
+        original_count: originalCount,
+        bot_filter_info: botFilterInfo,
+        identity_info: identityInfo,
+        consent_info: consentInfo,
+        validation_info: validationInfo,
+      });
+    }
 
-    const duplicatesBlocked = originalCount - filteredData.length;
+    // Segundo passo: filtrar duplicatas usando os event_ids (dry-run não toca no cache)
+    const filteredData: EventData[] = [];
+    for (const event of humanEvents) {
+      if (event.event_id && (mode.dryRun || !(await isDuplicateEvent(dedupStore, event.event_id)))) {
+        filteredData.push(event);
+      }
+    }
+
+    const duplicatesBlocked = humanEvents.length - filteredData.length;
+    recordEvents("deduplicated", "frontend", humanEvents.filter((event: EventData) => !filteredData.includes(event)));
 
     if (duplicatesBlocked > 0) {
-      console.log(
-        `🛡️ Deduplicação: ${duplicatesBlocked} eventos duplicados bloqueados de ${originalCount}`
-      );
+      logger.info("Eventos duplicados bloqueados", {
+        duplicates_blocked: duplicatesBlocked,
+        original_events: originalCount,
+      });
     }
 
     if (filteredData.length === 0) {
       return res.status(200).json({
         message: "Todos os eventos foram filtrados como duplicatas",
         duplicates_blocked: duplicatesBlocked,
+        bots_filtered: botsFiltered,
         original_count: originalCount,
-        cache_size: eventCache.size,
+        cache_size: await dedupStore.size(),
+        bot_filter_info: botFilterInfo,
+        identity_info: identityInfo,
+        consent_info: consentInfo,
+        validation_info: validationInfo,
       });
     }
 
     // ✅ FORMATAÇÃO IPv6: Aplicar formatação otimizada para Meta CAPI
     const formattedIP = formatIPForMeta(ip);
 
-    const enrichedData = filteredData.map((event: EventData) => {
-      let externalId = event.user_data?.external_id || null;
+    // 🌎 Geolocalização pelo IP (headers da plataforma ou banco local), uma consulta por requisição
+    const geo = runtimeConfig.geo.sources.length > 0 ? lookupGeo(req.headers, ip, runtimeConfig.geo) : null;
+    let geoEnrichedEvents = 0;
+
+    // 🍪 _fbp/_fbc primários: lidos dos cookies e regravados via Set-Cookie (só gera _fbp se puder gravar)
+    const browserCookies: Record<string, string> = { ...(req.cookies || {}) };
+    let persistedIds: BrowserIds | null = null;
 
+    const enrichedData = filteredData.map((event: EventData) => {
+      // 🪪 Já resolvido na etapa de identidade (frontend, cookie de visitante ou session_id)
+      const externalId = event.user_data?.external_id || null;
       if (!externalId) {
-        // ✅ CORRIGIDO: Usar EXATA lógica do DeduplicationEngine para consistência total
-        let sessionId = event.session_id;
-        if (!sessionId) {
-          const anyReq = req as ApiRequest;
-          if (anyReq.cookies && anyReq.cookies.session_id) {
-            sessionId = anyReq.cookies.session_id;
-          } else {
-            // ✅ MESMA LÓGICA: Gerar sessionId idêntico ao DeduplicationEngine
-            const timestamp = Date.now(); // Usar Date.now() como no frontend
-            const randomStr = Math.random().toString(36).substr(2, 8); // Usar Math.random como no frontend
-            sessionId = `sess_${timestamp}_${randomStr}`; // Mesmo formato: sess_timestamp_random
-          }
-        }
-        
-        // ✅ CONSISTÊNCIA TOTAL: Usar mesma lógica de geração do DeduplicationEngine
-        const timestamp = Date.now();
-        const randomPart = Math.random().toString(36).substr(2, 12);
-        const baseId = `${timestamp}_${randomPart}_${sessionId}`;
-        
-        // ✅ Aplicar SHA256 idêntico ao DeduplicationEngine
-        externalId = hashSHA256(baseId);
-        console.log("⚠️ External_id gerado no servidor (fallback - IDÊNTICO ao DeduplicationEngine):", externalId);
-      } else {
-        console.log("✅ External_id recebido do frontend (SHA256 - DeduplicationEngine):", externalId);
+        logger.debug("Evento sem external_id (nenhuma fonte de identidade disponível)", { event_id: event.event_id });
       }
 
       const eventName = event.event_name || "Lead";
       const eventSourceUrl =
-        event.event_source_url || origin || (req.headers.referer as string) || "https://www.digitalpaisagismo.com";
+        event.event_source_url || origin || (req.headers.referer as string) || runtimeConfig.defaultEventSourceUrl;
       const eventTime = event.event_time && !isNaN(Number(event.event_time)) ? Math.floor(Number(event.event_time)) : Math.floor(Date.now() / 1000);
       
       // ✅ Event_id já foi definido na etapa de deduplicação
       const eventId = event.event_id;
-      console.log("✅ Event_id processado:", eventId);
       const actionSource = event.action_source || "website";
 
       const customData: Record<string, unknown> = { ...(event.custom_data || {}) };
@@ -647,74 +666,100 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
         client_user_agent: userAgent,
       };
 
+      // 🔐 PII opt-in do frontend: aceita valores brutos (normalizados aqui) ou SHA-256 já normalizado
+      if (isPiiEnabled(runtimeConfig.pii, "frontend")) {
+        const pii = hashIdentity(
+          {
+            email: event.user_data?.em,
+            phone: event.user_data?.ph,
+            firstName: event.user_data?.fn,
+            lastName: event.user_data?.ln,
+          },
+          runtimeConfig.pii
+        );
+        Object.assign(userData, pii.fields);
+        if (pii.rejected.length > 0) {
+          logger.warn("Campos PII do frontend descartados", { event_id: eventId, rejected: pii.rejected });
+        }
+      }
+
+      // 🍪 Cookies só com consentimento de anúncios; o que vem do frontend tem prioridade
+      const consent = consentByEvent.get(eventId);
+      const browserIds =
+        consent.decision === "forward"
+          ? resolveBrowserIds({ cookies: browserCookies, eventSourceUrl, clickTimeMs: eventTime * 1000 }, cookieConfig)
+          : {};
+
       if (typeof event.user_data?.fbp === "string" && event.user_data.fbp.startsWith("fb.")) {
         // ✅ CORREÇÃO: FBP pode ter letras no timestamp (formato Meta flexível)
         const fbpPattern = /^fb\.[A-Za-z0-9]+\.[A-Za-z0-9]+\.[A-Za-z0-9_-]+$/;
         if (fbpPattern.test(event.user_data.fbp)) {
           userData.fbp = event.user_data.fbp;
-          console.log("✅ FBP válido preservado:", event.user_data.fbp);
+          logger.debug("FBP válido preservado", { event_id: eventId });
         } else {
           // ✅ CORREÇÃO: Preservar valor mesmo com formato não reconhecido
           userData.fbp = event.user_data.fbp;
-          console.warn("⚠️ FBP formato não reconhecido, mas preservando:", event.user_data.fbp);
+          logger.warn("FBP formato não reconhecido, mas preservando", { event_id: eventId, fbp: event.user_data.fbp });
         }
       }
 
+      if (!userData.fbp && browserIds.fbp) {
+        userData.fbp = browserIds.fbp;
+        logger.debug("FBP do cookie primário", { event_id: eventId, source: browserIds.fbpSource });
+      }
+
       if (event.user_data?.fbc) {
-        const processedFbc = processFbc(event.user_data.fbc);
+        const processedFbc = processFbc(event.user_data.fbc, eventTime * 1000);
         if (processedFbc) {
           userData.fbc = processedFbc;
-          console.log("✅ FBC processado e preservado:", processedFbc);
+          logger.debug("FBC processado e preservado", { event_id: eventId });
         } else {
           // ✅ CORREÇÃO: Preservar valor original mesmo quando processamento falha
           userData.fbc = event.user_data.fbc;
-          console.warn("⚠️ FBC não processado, mas preservando valor original:", event.user_data.fbc);
+          logger.warn("FBC não processado, mas preservando valor original", { event_id: eventId, fbc: event.user_data.fbc });
         }
       }
 
-      // ✅ CORREÇÃO CRÍTICA: Verificar se dados geográficos já estão hasheados (evitar double hash)
-      // SHA256 sempre tem 64 caracteres hexadecimais - se já tem 64 chars, não re-hashear
-      if (typeof event.user_data?.country === "string" && event.user_data.country.trim()) {
-        const countryValue = event.user_data.country.trim();
-        // Verificar se já está hasheado (64 caracteres hexadecimais = SHA256)
-        if (countryValue.length === 64 && /^[a-f0-9]{64}$/i.test(countryValue)) {
-          userData.country = countryValue;
-          console.log("🌍 Country já hasheado (frontend):", countryValue.substring(0, 16) + '...');
-        } else {
-          // Fallback: aplicar hash se não estiver hasheado (sem modificar case)
-          userData.country = hashSHA256(countryValue);
-          console.log("🌍 Country hasheado (fallback API):", (userData.country as string).substring(0, 16) + '...');
-        }
+      if (!userData.fbc && browserIds.fbc) {
+        userData.fbc = browserIds.fbc;
+        logger.debug("FBC do cookie primário", { event_id: eventId, source: browserIds.fbcSource });
       }
-      if (typeof event.user_data?.st === "string" && event.user_data.st.trim()) {
-        const stateValue = event.user_data.st.trim();
-        if (stateValue.length === 64 && /^[a-f0-9]{64}$/i.test(stateValue)) {
-          userData.st = stateValue;
-          console.log("🌍 State já hasheado (frontend):", stateValue.substring(0, 16) + '...');
-        } else {
-          userData.st = hashSHA256(stateValue);
-          console.log("🌍 State hasheado (fallback API):", (userData.st as string).substring(0, 16) + '...');
-        }
+
+      // Próximos eventos do lote reaproveitam o mesmo _fbp/_fbc (um _fbp gerado por requisição)
+      if (consent.decision === "forward") {
+        persistedIds = {
+          fbp: isValidFbp(userData.fbp as string) ? (userData.fbp as string) : browserIds.fbp,
+          fbc: isValidFbc(userData.fbc as string) ? (userData.fbc as string) : browserIds.fbc,
+        };
+        if (persistedIds.fbp) browserCookies[FBP_COOKIE] = persistedIds.fbp;
+        if (persistedIds.fbc) browserCookies[FBC_COOKIE] = persistedIds.fbc;
       }
-      if (typeof event.user_data?.ct === "string" && event.user_data.ct.trim()) {
-        const cityValue = event.user_data.ct.trim();
-        if (cityValue.length === 64 && /^[a-f0-9]{64}$/i.test(cityValue)) {
-          userData.ct = cityValue;
-          console.log("🌍 City já hasheado (frontend):", cityValue.substring(0, 16) + '...');
-        } else {
-          userData.ct = hashSHA256(cityValue);
-          console.log("🌍 City hasheado (fallback API):", (userData.ct as string).substring(0, 16) + '...');
-        }
+
+      // ✅ Geo do frontend normalizado antes do hash (mesmo formato da Hotmart e da geolocalização);
+      // SHA-256 já calculado na página passa direto (evita double hash)
+      const frontendGeo = hashGeoFields({
+        ct: event.user_data?.ct,
+        st: event.user_data?.st,
+        zp: event.user_data?.zp,
+        country: event.user_data?.country,
+      });
+      Object.assign(userData, frontendGeo.fields);
+      if (frontendGeo.rejected.length > 0) {
+        logger.debug("Campos geográficos do frontend descartados", { event_id: eventId, rejected: frontendGeo.rejected });
       }
-      if (typeof event.user_data?.zp === "string" && event.user_data.zp.trim()) {
-        const postalValue = event.user_data.zp.trim();
-        if (postalValue.length === 64 && /^[a-f0-9]{64}$/i.test(postalValue)) {
-          userData.zp = postalValue;
-          console.log("🌍 Postal Code já hasheado (frontend):", postalValue.substring(0, 16) + '...');
-        } else {
-          userData.zp = hashSHA256(postalValue);
-          console.log("🌍 Postal Code hasheado (fallback API):", (userData.zp as string).substring(0, 16) + '...');
-        }
+
+      // 🌎 Geo pelo IP só preenche o que o cliente não mandou - e nunca no downgrade (deriva do IP)
+      if (geo && consent.decision === "forward") {
+        const missing = GEO_FIELDS.filter((field) => !userData[field] && geo.fields[field]);
+        missing.forEach((field) => {
+          userData[field] = hashSHA256(geo.fields[field]);
+        });
+        if (missing.length > 0) geoEnrichedEvents++;
+      }
+
+      // 🍪 Downgrade: só analytics consentido - nada que identifique o navegador vai para a Meta
+      if (consent.decision === "downgrade") {
+        BROWSER_IDENTIFIERS.forEach((field) => delete userData[field]);
       }
 
       return {
@@ -725,107 +770,187 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
         action_source: actionSource,
         custom_data: customData,
         user_data: userData,
+        ...dataProcessingOptions(consent),
       };
     });
 
-    const payload = { data: enrichedData };
-    const jsonPayload = JSON.stringify(payload);
-    const shouldCompress = Buffer.byteLength(jsonPayload) > 2048;
-    const body = shouldCompress ? zlib.gzipSync(jsonPayload) : jsonPayload;
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      Connection: "keep-alive",
-      "User-Agent": "DigitalPaisagismo-CAPI-Proxy/1.0",
-      ...(shouldCompress ? { "Content-Encoding": "gzip" } : {}),
-    };
-
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 15000); // Aumentado para 15s
-
-    console.log("🔄 Enviando evento para Meta CAPI (DEDUPLICAÇÃO CORRIGIDA):", {
+    // Dry-run não grava cookies: o teste não deve mexer na identidade do navegador
+    if (persistedIds && cookieConfig.domain) responseCookies.push(...browserIdCookies(persistedIds, cookieConfig));
+    if (responseCookies.length > 0 && !mode.dryRun) res.setHeader("Set-Cookie", responseCookies);
+
+    // 🎯 Roteamento multi-pixel: origem, host do event_source_url e nome do evento
+    const batches = groupEventsByPixel(enrichedData, { origin }, runtimeConfig);
+
+    // 📊 GA4: mesmos eventos e decisão de consentimento; client_id/session_id dos cookies do gtag
+    const ga4Enabled = isGa4Enabled(runtimeConfig.ga4);
+    const ga4Inputs: Ga4EventInput[] = ga4Enabled
+      ? enrichedData.map((event) => ({
+          event,
+          consent: consentByEvent.get(event.event_id).decision,
+          clientId: clientIdFromGaCookie(req.cookies?._ga),
+          sessionId: sessionIdFromGaCookie(req.cookies?.[ga4SessionCookieName(runtimeConfig.ga4.measurementId)]),
+        }))
+      : [];
+
+    // 🎵 TikTok: ttclid/ttp do frontend têm prioridade sobre a URL e o cookie _ttp
+    const tiktokEnabled = isTiktokEnabled(runtimeConfig.tiktok);
+    const tiktokInputs: TiktokEventInput[] = tiktokEnabled
+      ? enrichedData.map((event, index) => ({
+          event,
+          consent: consentByEvent.get(event.event_id).decision,
+          ttclid: filteredData[index].user_data?.ttclid,
+          ttp: filteredData[index].user_data?.ttp || req.cookies?.[TTP_COOKIE],
+        }))
+      : [];
+
+    logger.success("Enviando eventos para Meta CAPI", {
       events: enrichedData.length,
       original_events: originalCount,
       duplicates_blocked: duplicatesBlocked,
+      bots_filtered: botsFiltered,
       deduplication_rate: `${Math.round((duplicatesBlocked / originalCount) * 100)}%`,
       event_names: enrichedData.map((e) => e.event_name),
       event_ids: enrichedData.map((e) => e.event_id).slice(0, 3), // Primeiros 3 para debug
+      pixels: batches.map((batch) => `${batch.target.key}:${batch.events.length}`),
       ip_type: ip.includes(':') ? 'IPv6' : 'IPv4',
-      client_ip_original: ip,
-      client_ip_formatted: formattedIP,
       ipv6_conversion_applied: ip.includes(':') ? 'Native IPv6' : 'IPv4→IPv6-mapped',
-      has_pii: false,
+      has_pii: enrichedData.some((e) => e.user_data.em || e.user_data.ph || e.user_data.fn || e.user_data.ln),
       external_ids_count: enrichedData.filter((e) => e.user_data.external_id).length,
-      external_ids_from_frontend: enrichedData.filter(
-        (e) => e.user_data.external_id && typeof e.user_data.external_id === 'string' && e.user_data.external_id.length === 64
-      ).length,
+      external_ids_from_frontend: filteredData.filter((event: EventData) => identitySources.get(event) === "frontend").length,
       has_geo_data: enrichedData.some((e) => e.user_data.ct || e.user_data.st || e.user_data.zp),
-      geo_locations: enrichedData
-        .filter((e) => e.user_data.ct)
-        .map((e) => `${e.user_data.ct}/${e.user_data.st}/${e.user_data.zp}`)
-        .slice(0, 3),
+      geo_enriched_events: geoEnrichedEvents,
+      geo_sources: geo?.sources,
       fbc_processed: enrichedData.filter((e) => e.user_data.fbc).length,
-      cache_size: eventCache.size,
-      cache_ttl_hours: CACHE_TTL / (60 * 60 * 1000),
+      consent_downgraded: consentInfo.downgraded,
+      dedup_store: dedupStore.kind,
+      cache_ttl_hours: runtimeConfig.dedup.ttlMs / (60 * 60 * 1000),
+      test_event_code: mode.testEventCode,
+      dry_run: mode.dryRun,
     });
 
-    const response = await fetch(`${META_URL}?access_token=${ACCESS_TOKEN}`, {
-      method: "POST",
-      headers,
-      body: body as BodyInit,
-      signal: controller.signal,
-    });
+    if (mode.dryRun) {
+      return res.status(200).json({
+        status: "dry_run",
+        test_event_code: mode.testEventCode,
+        pixels: dryRunPixels(batches, mode.testEventCode),
+        ...(ga4Enabled ? { ga4: dryRunGa4(ga4Inputs, runtimeConfig.ga4) } : {}),
+        ...(tiktokEnabled
+          ? { tiktok: dryRunTiktok(tiktokInputs, runtimeConfig.tiktok, { test: !!mode.testEventCode }) }
+          : {}),
+        processing_time_ms: Date.now() - startTime,
+        bot_filter_info: botFilterInfo,
+        identity_info: identityInfo,
+        consent_info: consentInfo,
+        validation_info: validationInfo,
+      });
+    }
 
-    clearTimeout(timeout);
-    const data = await response.json() as Record<string, unknown>;
-    const responseTime = Date.now() - startTime;
+    // 📦 Coalescência: com BATCH_ENABLED os eventos entram no lote do pixel e o cliente recebe 202
+    // (webhooks Hotmart continuam síncronos - a Hotmart só reenvia se souber que falhou)
+    const batcher = getEventBatcher(runtimeConfig.batch, (pixelBatches, testEventCode) =>
+      deliverToPixels(pixelBatches, { dedupStore, retryQueue, audit, testEventCode })
+    );
+    if (batcher) {
+      const queued = batcher.enqueue(batches, mode.testEventCode);
+      // GA4 e TikTok não entram no lote da Meta: são enviados antes de responder
+      const [ga4, tiktok] = await Promise.all([
+        ga4Enabled ? deliverToGa4(ga4Inputs, runtimeConfig.ga4, { debug: !!mode.testEventCode }) : null,
+        tiktokEnabled ? deliverToTiktok(tiktokInputs, runtimeConfig.tiktok, { test: !!mode.testEventCode }) : null,
+      ]);
+      return res.status(202).json({
+        status: "accepted",
+        events_queued: queued,
+        ...(mode.testEventCode ? { test_event_code: mode.testEventCode } : {}),
+        pixels: batches.map((batch) => ({ pixel_key: batch.target.key, events: batch.events.length })),
+        destinations: { meta: { status: "accepted" }, ...(ga4 ? { ga4 } : {}), ...(tiktok ? { tiktok } : {}) },
+        processing_time_ms: Date.now() - startTime,
+        deduplication_info: {
+          original_events: originalCount,
+          processed_events: enrichedData.length,
+          duplicates_blocked: duplicatesBlocked,
+          bots_filtered: botsFiltered,
+          cache_size: await dedupStore.size(),
+        },
+        bot_filter_info: botFilterInfo,
+        identity_info: identityInfo,
+        consent_info: consentInfo,
+        validation_info: validationInfo,
+      });
+    }
 
-    if (!response.ok) {
-      console.error("❌ Erro da Meta CAPI:", {
-        status: response.status,
-        data,
+    // Meta, GA4 e TikTok em paralelo e independentes: o status HTTP continua sendo o da Meta
+    const [results, ga4, tiktok] = await Promise.all([
+      deliverToPixels(batches, { dedupStore, retryQueue, audit, testEventCode: mode.testEventCode }),
+      ga4Enabled
+        ? deliverToGa4(ga4Inputs, runtimeConfig.ga4, { debug: !!mode.testEventCode })
+        : Promise.resolve<Ga4DeliveryResult>(null),
+      tiktokEnabled
+        ? deliverToTiktok(tiktokInputs, runtimeConfig.tiktok, { test: !!mode.testEventCode })
+        : Promise.resolve<TiktokDeliveryResult>(null),
+    ]);
+    const status = aggregateStatus(results);
+    const responseTime = Date.now() - startTime;
+    const failed = results.filter((result) => !result.ok);
+
+    if (failed.length > 0) {
+      logger.error("Erro da Meta CAPI", {
+        failed_pixels: failed.map((result) => ({
+          pixel: result.pixel_key,
+          status: result.http_status,
+          error: result.error,
+        })),
+        delivered_pixels: results.length - failed.length,
         events: enrichedData.length,
         ip_type: ip.includes(':') ? 'IPv6' : 'IPv4',
         duplicates_blocked: duplicatesBlocked,
       });
-
-      return res.status(response.status).json({
-        error: "Erro da Meta",
-        details: data,
+    } else {
+      logger.success("Evento enviado com sucesso para Meta CAPI", {
+        events_processed: enrichedData.length,
+        pixels: results.length,
+        duplicates_blocked: duplicatesBlocked,
         processing_time_ms: responseTime,
+        compression_used: results.some((result) => result.compressed),
+        ip_type: ip.includes(':') ? 'IPv6' : 'IPv4',
+        external_ids_sent: enrichedData.filter((e) => e.user_data.external_id).length,
+        sha256_format_count: filteredData.filter((event: EventData) => identitySources.get(event) === "frontend").length,
+        cache_size: await dedupStore.size(),
       });
     }
 
-    console.log("✅ Evento enviado com sucesso para Meta CAPI:", {
-      events_processed: enrichedData.length,
-      duplicates_blocked: duplicatesBlocked,
+    res.status(status).json({
+      ...(failed.length > 0 ? { error: "Erro da Meta", error_category: failed[0].error?.category } : {}),
+      ...(mode.testEventCode ? { test_event_code: mode.testEventCode } : {}),
+      events: summarizeEventOutcomes(results),
+      pixels: results,
+      destinations: {
+        meta: { status: failed.length === 0 ? "success" : status === 207 ? "partial_success" : "error" },
+        ...(ga4 ? { ga4 } : {}),
+        ...(tiktok ? { tiktok } : {}),
+      },
       processing_time_ms: responseTime,
-      compression_used: shouldCompress,
-      ip_type: ip.includes(':') ? 'IPv6' : 'IPv4',
-      external_ids_sent: enrichedData.filter((e) => e.user_data.external_id).length,
-      sha256_format_count: enrichedData.filter(
-        (e) => e.user_data.external_id && typeof e.user_data.external_id === 'string' && e.user_data.external_id.length === 64
-      ).length,
-      cache_size: eventCache.size,
-    });
-
-    res.status(200).json({
-      ...data,
       ip_info: { type: ip.includes(':') ? 'IPv6' : 'IPv4', address: ip },
       deduplication_info: {
         original_events: originalCount,
         processed_events: enrichedData.length,
         duplicates_blocked: duplicatesBlocked,
-        cache_size: eventCache.size,
+        bots_filtered: botsFiltered,
+        cache_size: await dedupStore.size(),
       },
+      bot_filter_info: botFilterInfo,
+      identity_info: identityInfo,
+      consent_info: consentInfo,
+      validation_info: validationInfo,
     });
   } catch (error: unknown) {
-    console.error("❌ Erro no Proxy CAPI:", error);
+    logger.error("Erro no Proxy CAPI", { error });
     if (error instanceof Error && error.name === "AbortError") {
       return res
         .status(408)
-        .json({ error: "Timeout ao enviar evento para a Meta", timeout_ms: 15000 });
+        .json({ error: "Timeout ao enviar evento para a Meta", timeout_ms: META_TIMEOUT_MS });
     }
     res.status(500).json({ error: "Erro interno no servidor CAPI." });
   }
 }
 
+export default withRequestLogging(handler);
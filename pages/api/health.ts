@@ -0,0 +1,126 @@
+// ✅ HEALTH CHECK: GET /api/health
+// Liveness: a função responde e a configuração carrega (503 se houver ConfigError).
+// Readiness: GET /api/health?ready=1 também consulta o store de deduplicação (Redis/arquivo).
+// Detalhes (avisos de configuração, pixels, destinos e stores) só com "Authorization: Bearer
+// <ADMIN_TOKEN>" ou METRICS_TOKEN: sem token a resposta traz apenas status e contagens.
+
+import { getConfig, ConfigError, CapiConfig } from "../../lib/config";
+import { getDedupStore } from "../../lib/dedup";
+import { isGa4Enabled } from "../../lib/destinations/ga4";
+import { isTiktokEnabled } from "../../lib/destinations/tiktok";
+import { safeEqual } from "../../lib/hash";
+import { ApiRequestBase, ApiResponse, bearerToken, remoteAddress } from "../../lib/http";
+import { logger, withRequestLogging } from "../../lib/logger";
+import { enforceRateLimit } from "../../lib/rate-limit";
+
+const startedAt = Date.now();
+
+// Configuração válida, mas com algo que provavelmente não é o pretendido
+function configWarnings(config: CapiConfig): string[] {
+  const warnings: string[] = [];
+  const serverless = !!process.env.VERCEL;
+  if (config.hotmart.hottoks.length === 0) {
+    warnings.push("HOTMART_HOTTOK não configurado - webhooks Hotmart serão recusados");
+  }
+  if (serverless && config.dedup.store === "memory") {
+    warnings.push("DEDUP_STORE=memory em serverless - cada instância deduplica sozinha");
+  }
+  if (serverless && config.rateLimit.store === "memory") {
+    warnings.push("RATE_LIMIT_STORE=memory em serverless - limites contados por instância");
+  }
+  if (serverless && config.retry.enabled && config.retry.store === "file") {
+    warnings.push("RETRY_QUEUE_STORE=file em serverless - o cron drena outra instância e os jobs se perdem; use redis");
+  }
+  if (config.retry.enabled && !config.cronSecret) {
+    warnings.push("RETRY_QUEUE_ENABLED sem CRON_SECRET - a fila de retry nunca será drenada");
+  }
+  if (config.identity.sources.includes("visitor_cookie") && !config.identity.secret) {
+    warnings.push("IDENTITY_SOURCES inclui visitor_cookie sem IDENTITY_SECRET - cookie de visitante desativado");
+  }
+  if (serverless && config.audit.enabled && config.audit.dir.startsWith("/tmp")) {
+    warnings.push("AUDIT_LOG_DIR em /tmp em serverless - o log de auditoria se perde a cada instância");
+  }
+  if (!config.metricsToken && !config.testMode.adminToken) {
+    warnings.push("METRICS_TOKEN e ADMIN_TOKEN ausentes - /api/metrics recusa todos os scrapes");
+  }
+  return warnings;
+}
+
+function isAuthorized(req: ApiRequestBase, tokens: Array<string | undefined>): boolean {
+  const token = bearerToken(req.headers);
+  return !!token && tokens.some((expected) => !!expected && safeEqual(token, expected));
+}
+
+async function handler(req: ApiRequestBase, res: ApiResponse) {
+  if (req.method !== "GET") return res.status(405).json({ error: "Method Not Allowed" });
+  res.setHeader("Cache-Control", "no-store");
+  const uptimeSeconds = Math.floor((Date.now() - startedAt) / 1000);
+
+  let runtimeConfig: CapiConfig;
+  try {
+    runtimeConfig = getConfig();
+  } catch (error: unknown) {
+    if (!(error instanceof ConfigError)) throw error;
+    // Sem configuração válida não há ADMIN_TOKEN confiável: os problemas ficam só no log
+    logger.error("Health check - configuração inválida", { issues: error.issues });
+    return res.status(503).json({
+      status: "error",
+      uptime_seconds: uptimeSeconds,
+      checks: { config: { ok: false, issues: error.issues.length } },
+    });
+  }
+
+  // 🚦 Token enviado = tentativa de ver os detalhes: mesma política das rotas administrativas
+  if (bearerToken(req.headers)) {
+    const rateLimit = await enforceRateLimit(res, runtimeConfig.rateLimit, runtimeConfig.redis, "admin", [
+      remoteAddress(req),
+    ]);
+    if (!rateLimit.allowed) {
+      return res.status(429).json({ error: "Limite de requisições excedido", retry_after: rateLimit.retryAfterSeconds });
+    }
+  }
+  const detailed = isAuthorized(req, [runtimeConfig.testMode.adminToken, runtimeConfig.metricsToken]);
+  const warnings = configWarnings(runtimeConfig);
+
+  const checks: Record<string, unknown> = {
+    config: { ok: true, warnings: detailed ? warnings : warnings.length },
+  };
+  let ready = true;
+  if (req.query?.ready) {
+    const dedupStore = getDedupStore(runtimeConfig.dedup, runtimeConfig.redis);
+    const probeStart = Date.now();
+    try {
+      const size = await dedupStore.size();
+      checks.dedup_store = { ok: true, kind: dedupStore.kind, size, latency_ms: Date.now() - probeStart };
+    } catch (error: unknown) {
+      ready = false;
+      logger.error("Health check - store de deduplicação indisponível", { store: dedupStore.kind, error });
+      checks.dedup_store = { ok: false, kind: dedupStore.kind, latency_ms: Date.now() - probeStart };
+    }
+  }
+
+  if (detailed) {
+    checks.pixels = Object.keys(runtimeConfig.meta.pixels);
+    checks.routes = runtimeConfig.routes.length;
+    checks.destinations = {
+      meta: true,
+      ga4: isGa4Enabled(runtimeConfig.ga4),
+      tiktok: isTiktokEnabled(runtimeConfig.tiktok),
+    };
+    checks.stores = {
+      dedup: runtimeConfig.dedup.store,
+      rate_limit: runtimeConfig.rateLimit.store,
+      retry_queue: runtimeConfig.retry.enabled ? runtimeConfig.retry.store : false,
+      audit_log: runtimeConfig.audit.enabled,
+      batch: runtimeConfig.batch.enabled,
+    };
+  }
+
+  res.status(ready ? 200 : 503).json({
+    status: ready ? "ok" : "unavailable",
+    uptime_seconds: uptimeSeconds,
+    checks,
+  });
+}
+
+export default withRequestLogging(handler);
@@ -0,0 +1,57 @@
+// ✅ MÉTRICAS PROMETHEUS: GET /api/metrics com "Authorization: Bearer <METRICS_TOKEN>"
+// (sem METRICS_TOKEN vale o ADMIN_TOKEN). Números por instância - ver lib/metrics.ts.
+//   scrape_configs: - job_name: capi
+//                     authorization: { credentials: <METRICS_TOKEN> }
+//                     metrics_path: /api/metrics
+
+import { getConfig, ConfigError, CapiConfig } from "../../lib/config";
+import { getDedupStore } from "../../lib/dedup";
+import { safeEqual } from "../../lib/hash";
+import { ApiRequestBase, ApiResponse, bearerToken, remoteAddress } from "../../lib/http";
+import { logger, withRequestLogging } from "../../lib/logger";
+import { renderMetrics } from "../../lib/metrics";
+import { enforceRateLimit } from "../../lib/rate-limit";
+
+async function handler(req: ApiRequestBase, res: ApiResponse) {
+  if (req.method !== "GET") return res.status(405).json({ error: "Method Not Allowed" });
+
+  let runtimeConfig: CapiConfig;
+  try {
+    runtimeConfig = getConfig();
+  } catch (error: unknown) {
+    if (error instanceof ConfigError) {
+      logger.error("Métricas recusadas - configuração inválida", { issues: error.issues });
+      return res.status(500).json({ error: "Proxy CAPI não configurado" });
+    }
+    throw error;
+  }
+
+  // 🚦 Política admin antes da checagem do token: limita tentativas de adivinhar o token
+  const rateLimit = await enforceRateLimit(res, runtimeConfig.rateLimit, runtimeConfig.redis, "admin", [
+    remoteAddress(req),
+  ]);
+  if (!rateLimit.allowed) {
+    return res.status(429).json({ error: "Limite de requisições excedido", retry_after: rateLimit.retryAfterSeconds });
+  }
+
+  const expected = runtimeConfig.metricsToken || runtimeConfig.testMode.adminToken;
+  const token = bearerToken(req.headers);
+  if (!expected || !token || !safeEqual(token, expected)) {
+    logger.warn("Chamada não autorizada às métricas");
+    return res.status(401).json({ error: "Não autorizado" });
+  }
+
+  // Store indisponível não derruba o scrape: só a métrica do tamanho do cache fica de fora
+  let dedupCacheSize: number | undefined;
+  try {
+    dedupCacheSize = await getDedupStore(runtimeConfig.dedup, runtimeConfig.redis).size();
+  } catch (error: unknown) {
+    logger.warn("Tamanho do cache de deduplicação indisponível para as métricas", { error });
+  }
+
+  res.setHeader("Cache-Control", "no-store");
+  res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+  res.status(200).send(renderMetrics({ dedupCacheSize }));
+}
+
+export default withRequestLogging(handler);
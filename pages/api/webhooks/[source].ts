@@ -0,0 +1,122 @@
+// ✅ WEBHOOKS DE PLATAFORMAS DE VENDA: POST /api/webhooks/<fonte>
+// Fontes: hotmart, kiwify, eduzz, stripe e as entradas de GENERIC_WEBHOOKS. Cada uma tem
+// adaptador próprio (lib/sources) para formato, assinatura e mapeamento de eventos; o resto do
+// pipeline é o mesmo da Hotmart em /api/events. Chamada servidor a servidor: sem CORS.
+// X-Test-Event-Code / X-Dry-Run funcionam como em /api/events (exigem ADMIN_TOKEN).
+
+import { getConfig, ConfigError, CapiConfig } from "../../../lib/config";
+import { getDedupStore } from "../../../lib/dedup";
+import {
+  ApiRequestBase,
+  ApiResponse,
+  BodyTooLargeError,
+  RawBodySource,
+  headerValue,
+  readRawBody,
+  remoteAddress,
+} from "../../../lib/http";
+import { logger, withRequestLogging } from "../../../lib/logger";
+import { META_TIMEOUT_MS } from "../../../lib/meta";
+import { enforceRateLimit, RateLimitPolicyName } from "../../../lib/rate-limit";
+import { getRetryQueue } from "../../../lib/retry-queue";
+import { getAuditLog } from "../../../lib/audit";
+import { getSourceAdapter } from "../../../lib/sources";
+import { handleSourceWebhook } from "../../../lib/sources/webhook";
+import { isAdminRequest, resolveRequestMode } from "../../../lib/test-mode";
+
+// ✅ Corpo bruto é lido manualmente: as assinaturas são calculadas sobre os bytes originais
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+type WebhookApiRequest = ApiRequestBase & RawBodySource;
+
+async function handler(req: WebhookApiRequest, res: ApiResponse) {
+  let runtimeConfig: CapiConfig;
+  try {
+    runtimeConfig = getConfig();
+  } catch (error: unknown) {
+    if (error instanceof ConfigError) {
+      logger.error("Webhook recusado - configuração inválida", { issues: error.issues });
+      return res.status(500).json({ error: "Proxy CAPI não configurado" });
+    }
+    throw error;
+  }
+
+  res.setHeader("Cache-Control", "no-store");
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+  const sourceName = headerValue(req.query?.source) || "";
+  const adapter = getSourceAdapter(sourceName, runtimeConfig);
+  if (!adapter) return res.status(404).json({ error: "Fonte de webhook desconhecida", source: sourceName });
+
+  const ip = remoteAddress(req);
+  // 🚦 Hotmart mantém a política própria; as demais plataformas dividem RATE_LIMIT_WEBHOOKS por fonte
+  const policy: RateLimitPolicyName = isAdminRequest(req.headers, runtimeConfig.testMode.adminToken)
+    ? "admin"
+    : adapter.name === "hotmart"
+      ? "hotmart"
+      : "webhook";
+  const rateLimit = await enforceRateLimit(res, runtimeConfig.rateLimit, runtimeConfig.redis, policy, [ip, adapter.name]);
+  if (!rateLimit.allowed) {
+    return res.status(429).json({ error: "Limite de requisições excedido", retry_after: rateLimit.retryAfterSeconds });
+  }
+
+  let rawBody: Buffer;
+  try {
+    rawBody = await readRawBody(req);
+  } catch (error: unknown) {
+    if (error instanceof BodyTooLargeError) {
+      return res.status(413).json({ error: "Payload muito grande" });
+    }
+    logger.error("Erro ao ler corpo da requisição", { error });
+    return res.status(400).json({ error: "Não foi possível ler o corpo da requisição" });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody.toString("utf8"));
+  } catch {
+    return res.status(400).json({ error: "Payload inválido - JSON malformado" });
+  }
+  if (!adapter.detect(body)) {
+    logger.warn(`Payload não reconhecido como webhook ${adapter.label}`, { source: adapter.name, ip });
+    return res.status(400).json({ error: `Payload inválido para a fonte ${adapter.name}` });
+  }
+
+  // 🧪 Headers de teste exigem ADMIN_TOKEN: recusar é melhor que mandar para produção em silêncio
+  const mode = resolveRequestMode(req.headers, runtimeConfig.testMode);
+  if (mode.rejected) {
+    logger.warn("Modo de teste recusado", { reason: mode.rejected });
+    return res.status(401).json({ error: "Modo de teste não autorizado", reason: mode.rejected });
+  }
+
+  try {
+    await handleSourceWebhook(
+      adapter,
+      body,
+      {
+        request: { headers: req.headers, query: req.query, rawBody },
+        ip,
+        userAgent: headerValue(req.headers["user-agent"]) || "",
+        config: runtimeConfig,
+        mode,
+        dedupStore: getDedupStore(runtimeConfig.dedup, runtimeConfig.redis),
+        retryQueue: getRetryQueue(runtimeConfig.retry, runtimeConfig.redis),
+        audit: getAuditLog(runtimeConfig.audit),
+      },
+      res
+    );
+  } catch (error: unknown) {
+    logger.error(`Erro no webhook ${adapter.label}`, { error });
+    if (error instanceof Error && error.name === "AbortError") {
+      return res.status(408).json({ error: "Timeout ao enviar evento para a Meta", timeout_ms: META_TIMEOUT_MS });
+    }
+    res.status(500).json({ error: "Erro interno no servidor CAPI." });
+  }
+}
+
+export default withRequestLogging(handler);
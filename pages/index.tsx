@@ -1,24 +1,40 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
+
+type TestMode = "dry_run" | "test_events";
 
 export default function Home() {
-  const [status, setStatus] = useState("⏳ Enviando evento de teste...");
+  const [status, setStatus] = useState("Nenhum evento enviado.");
   const [responseData, setResponseData] = useState<any>(null);
   const [timestamp, setTimestamp] = useState<string>("");
+  // Token e código ficam só na memória da página (nunca no bundle nem em localStorage)
+  const [adminToken, setAdminToken] = useState("");
+  const [testEventCode, setTestEventCode] = useState("");
+  const [mode, setMode] = useState<TestMode>("dry_run");
 
+  // ✅ Nada é disparado no carregamento: o envio é manual, em dry-run (sem chamar a Meta)
+  // ou com test_event_code (aparece só na aba "Testar eventos" do Gerenciador de Eventos)
   const sendTestEvent = async () => {
+    if (!adminToken) {
+      setStatus("⚠️ Informe o ADMIN_TOKEN do proxy.");
+      return;
+    }
+    if (mode === "test_events" && !testEventCode) {
+      setStatus("⚠️ Informe o código da aba Testar eventos (ex: TEST12345).");
+      return;
+    }
+
     const now = new Date();
     setTimestamp(now.toLocaleString("pt-BR"));
     setStatus("⏳ Enviando evento de teste...");
 
     const event = {
       event_name: "Lead",
+      event_id: `diag_${Date.now()}`,
       event_time: Math.floor(Date.now() / 1000),
       action_source: "website",
       event_source_url: "https://www.digitalpaisagismo.com",
       user_data: {
         external_id: "dec28dba1ef8f7a974d0daa5fb417e886d608ff870dea037176fafd3ef931045",
-        client_ip_address: "177.155.123.123",
-        client_user_agent: navigator.userAgent,
         fbp: "fb.1.1751360590432.213448171908285443",
         fbc: "fb.1.1751360590432.IwAR3T_Exemplo"
       },
@@ -33,26 +49,36 @@ export default function Home() {
       }
     };
 
-    const payload = {
-      data: [event],
-      pixel_id: "765087775987515",
-      access_token: "EAAQfmxkTTZCcBPEcIiZAy6OKIxlt0ZBQxYHCcVT3pLFZAOR6zr1PjKMOV844YNtdNFp2PRgwkBvhFIYLv5ZBVnltHDRnlZAAZCH8gIZCK0HHs6dR4QpWOUKxKvoaUXvUobAsJZB4c0eraiIzoJFkPeanQ6v7PPzzDqIZB6dniUDyQK6PhwrVPGLmzgPoaDzz9bYwZDZD"
+    // Pixel e token ficam exclusivamente no servidor (variáveis de ambiente do proxy)
+    const payload = { data: [event] };
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${adminToken}`
     };
+    if (mode === "dry_run") headers["X-Dry-Run"] = "true";
+    else headers["X-Test-Event-Code"] = testEventCode;
 
     try {
       const res = await fetch("/api/events", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers,
         body: JSON.stringify(payload)
       });
 
       const json = await res.json();
       setResponseData(json);
 
-      if (json.events_received) {
-        setStatus("✅ Evento recebido com sucesso pela Meta via proxy.");
+      const pixels: Array<{ ok?: boolean }> = Array.isArray(json.pixels) ? json.pixels : [];
+      if (res.status === 401) {
+        setStatus("❌ Modo de teste não autorizado (verifique o ADMIN_TOKEN).");
+      } else if (json.status === "dry_run") {
+        setStatus(`✅ Dry-run concluído: payload gerado para ${pixels.length} pixel(s), nada foi enviado à Meta.`);
+      } else if (pixels.length > 0 && pixels.every((pixel) => pixel.ok)) {
+        setStatus(`✅ Evento de teste recebido pela Meta (${pixels.length} pixel(s)) - confira a aba Testar eventos.`);
+      } else if (pixels.some((pixel) => pixel.ok)) {
+        setStatus("⚠️ Evento aceito apenas por parte dos pixels.");
       } else if (json.error) {
-        setStatus("❌ Erro retornado pela Meta.");
+        setStatus("❌ Erro retornado pelo proxy ou pela Meta.");
       } else {
         setStatus("⚠️ Evento enviado, mas sem confirmação clara da Meta.");
       }
@@ -62,13 +88,33 @@ export default function Home() {
     }
   };
 
-  useEffect(() => {
-    sendTestEvent();
-  }, []);
+  const inputStyle = { padding: "8px", width: "100%", boxSizing: "border-box" as const, marginTop: "4px" };
 
   return (
     <div style={{ fontFamily: "sans-serif", padding: "40px", maxWidth: "800px", margin: "0 auto" }}>
       <h2>🔍 Diagnóstico do Proxy CAPI</h2>
+
+      <label style={{ display: "block", marginTop: "16px" }}>
+        ADMIN_TOKEN
+        <input type="password" value={adminToken} onChange={(e) => setAdminToken(e.target.value)} style={inputStyle} />
+      </label>
+
+      <div style={{ marginTop: "16px" }}>
+        <label style={{ marginRight: "20px" }}>
+          <input type="radio" checked={mode === "dry_run"} onChange={() => setMode("dry_run")} /> Dry-run (não envia à Meta)
+        </label>
+        <label>
+          <input type="radio" checked={mode === "test_events"} onChange={() => setMode("test_events")} /> Test Events
+        </label>
+      </div>
+
+      {mode === "test_events" && (
+        <label style={{ display: "block", marginTop: "16px" }}>
+          Código de teste (aba Testar eventos)
+          <input value={testEventCode} onChange={(e) => setTestEventCode(e.target.value.trim())} style={inputStyle} />
+        </label>
+      )}
+
       <p><strong>Status:</strong> {status}</p>
       <p><strong>Horário:</strong> {timestamp}</p>
 
@@ -84,7 +130,7 @@ export default function Home() {
           cursor: "pointer"
         }}
       >
-        🔄 Reenviar evento de teste
+        🧪 Enviar evento de teste
       </button>
 
       <h3 style={{ marginTop: "30px" }}>📦 Resposta completa:</h3>
@@ -98,7 +144,7 @@ export default function Home() {
           fontSize: "14px"
         }}
       >
-        {responseData ? JSON.stringify(responseData, null, 2) : "Aguardando resposta..."}
+        {responseData ? JSON.stringify(responseData, null, 2) : "Aguardando envio..."}
       </pre>
     </div>
   );